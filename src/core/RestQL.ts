@@ -4,19 +4,41 @@ import {
   Schema,
   BaseUrls,
   RestQLOptions,
+  ExecuteOptions,
+  IterateOptions,
+  FetchPolicy,
+  CacheStats,
+  HttpCacheValidators,
+  HttpCacheInfo,
+  Connection,
+  ExecutionContext,
+  Middleware,
   ParsedOperation,
   VariableValues,
   HttpMethod,
   ParsedQuery,
+  ParsedField,
+  ArgumentValue,
   SchemaResource,
-  ValueType
+  SchemaField,
+  ValueType,
+  Endpoint
 } from './types'
 import { SDLParser } from './parser/SDLParser'
 import { CacheManager } from './cache/CacheManager'
+import { EntityStore } from './cache/EntityStore'
+import { MemoryCacheStore } from './cache/MemoryCacheStore'
 import { BatchManager } from './batch/BatchManager'
 import { RestQLExecutor } from './executor/RestQLExecutor'
-import { ValidationError } from './validation/errors'
+import { ValidationError, CacheMissError } from './validation/errors'
 import { SchemaValidator } from './validation/SchemaValidator'
+import { VariableValidator } from './validation/VariableValidator'
+import { QueryValidator } from './validation/QueryValidator'
+import { resolveArgumentValue } from './utils/arguments'
+import { parseMutationName } from './utils/mutations'
+import { getSchemaResource, getCanonicalTypeName } from './utils/schema'
+import { getExportName, getExportedVariableNames } from './utils/directives'
+import { createAbortScope } from './utils/abort'
 import lodashGet from 'lodash.get'
 
 /**
@@ -30,10 +52,14 @@ export class RestQL extends Logger {
   private sdlParser: SDLParser
   private queryParser: RestQLParser
   private cacheManager: CacheManager
+  private entityStore: EntityStore
+  private revalidatingCacheKeys: Set<string>
   private batchManager: BatchManager
   private executor: RestQLExecutor
   private transformers: { [key: string]: () => any }
   private schemaValidator: SchemaValidator
+  private variableValidator: VariableValidator
+  private queryValidator: QueryValidator
   private debugMode: boolean
 
   /**
@@ -58,28 +84,41 @@ export class RestQL extends Logger {
       headers: {},
       maxRetries: 3,
       retryDelay: 1000,
+      maxRetryDelay: 30 * 1000,
       batchInterval: 50,
       maxBatchSize: Infinity,
+      normalizedCache: false,
+      cacheStore: new MemoryCacheStore(),
+      maxCacheEntries: Infinity,
+      maxCacheBytes: Infinity,
+      cacheSweepInterval: 0,
+      cacheRevalidationWindow: 60 * 60 * 1000,
+      timeout: Infinity,
+      middleware: [],
       ...options
     }
     this.debugMode = debugMode
+    this.revalidatingCacheKeys = new Set()
 
     this.initializeComponents(sdl, transformers)
   }
 
   /**
-   * Executes a RestQL operation.
+   * Executes a RestQL operation. Aborting the `signal` option or exceeding the `timeout` option
+   * aborts the requests of the operation still queued or in flight.
    * @param {string} operationString - The operation string to execute
    * @param {{ [key: string]: any }} [variables={}] - Variables for the operation
-   * @param {{ useCache?: boolean }} [options={}] - Execution options
-   * @returns {Promise<any | any[]>} The result of the operation
-   * @throws {ValidationError} If the operation type is unsupported
+   * @param {ExecuteOptions} [options={}] - Execution options
+   * @returns {Promise<any>} The result of the operation
+   * @throws {ValidationError} If the operation or its variables are invalid, or the operation type is unsupported
+   * @throws {AbortError} If the signal is aborted before the operation completes
+   * @throws {TimeoutError} If the operation or one of its requests times out
    */
   async execute (
     operationString: string,
     variables: { [key: string]: any } = {},
-    options: { useCache?: boolean } = {}
-  ): Promise<any | any[]> {
+    options: ExecuteOptions = {}
+  ): Promise<any> {
     this.log('Execute called with:', {
       operationString,
       variables,
@@ -88,105 +127,301 @@ export class RestQL extends Logger {
     const parsedOperation = this.queryParser.parse(operationString)
     this.log('Parsed operation:', parsedOperation)
 
-    const definedVariables = this.filterDefinedVariables(variables)
-    this.log('Defined variables:', definedVariables)
-
-    this.validateVariables(parsedOperation.variables, definedVariables)
+    this.queryValidator.validate(parsedOperation)
 
-    if (parsedOperation.operationType === 'query') {
-      const result = await this.executeQuery(
-        parsedOperation,
-        definedVariables,
-        options.useCache ?? true
-      )
-      return result
-    } else if (parsedOperation.operationType === 'mutation') {
-      this.log('Executing mutation')
-      const result = await this.executeMutation(
-        parsedOperation,
-        definedVariables
-      )
-      this.log('Mutation result:', result)
-      return result
-    } else {
+    // Exported variables are only set once the mutation exporting them has run
+    const exportedVariableNames = parsedOperation.queries.flatMap((query) =>
+      getExportedVariableNames(query.fields)
+    )
+    if (exportedVariableNames.length > 0 && options.parallel) {
       throw new ValidationError(
-        `Unsupported operation type: ${parsedOperation.operationType}`
+        '@export cannot be used when mutations run in parallel'
       )
     }
+    const declaredVariables = Object.fromEntries(
+      Object.entries(parsedOperation.variables).filter(
+        ([varName]) => !exportedVariableNames.includes(varName)
+      )
+    )
+
+    const definedVariables = this.variableValidator.validate(
+      declaredVariables,
+      this.filterDefinedVariables(variables)
+    )
+    this.log('Defined variables:', definedVariables)
+
+    const abortScope = createAbortScope(options.signal, options.timeout, 'Operation')
+    const context = { operationName: parsedOperation.operationName, signal: abortScope.signal }
+    try {
+      if (parsedOperation.operationType === 'query') {
+        const result = await this.executeQuery(
+          parsedOperation,
+          definedVariables,
+          options.useCache ?? true,
+          options.fetchPolicy ?? 'cache-first',
+          context
+        )
+        return result
+      } else if (parsedOperation.operationType === 'mutation') {
+        this.log('Executing mutation')
+        const result = await this.executeMutation(
+          parsedOperation,
+          definedVariables,
+          options.parallel ?? false,
+          context
+        )
+        this.log('Mutation result:', result)
+        return result
+      } else {
+        throw new ValidationError(
+          `Unsupported operation type: ${parsedOperation.operationType}`
+        )
+      }
+    } finally {
+      abortScope.clear()
+    }
   }
 
   /**
-   * Validates the provided variables against the declared variables.
-   * @param {{ [key: string]: VariableDefinition }} declaredVariables - The variables declared in the operation
-   * @param {{ [key: string]: any }} providedVariables - The variables provided for execution
-   * @throws {ValidationError} If a required variable is not provided
-   * @private
+   * Fetches the next page of every paginated query of an operation and merges it into the
+   * cached connection: its items are appended and its page info replaced. Queries that are
+   * not cached yet fetch their first pages, and queries already on their last page return
+   * the cached connection.
+   * @param {string} operationString - The query operation whose connections to extend
+   * @param {{ [key: string]: any }} [variables={}] - Variables for the operation
+   * @returns {Promise<{ shapedData: any; rawResponses: { [key: string]: any } }>} The merged connections
+   * @throws {ValidationError} If the operation is not a query, its variables are invalid or it queries a resource that is not paginated
    */
-  private validateVariables (
-    declaredVariables: { [key: string]: VariableDefinition },
-    providedVariables: { [key: string]: any }
-  ): void {
-    this.log('Validating variables:')
-    this.log('Declared variables:', declaredVariables)
-    this.log('Provided variables:', providedVariables)
-
-    for (const [varName, varDef] of Object.entries(declaredVariables)) {
-      this.log(`Checking variable: ${varName}, required: ${varDef.isRequired}`)
-      if (varDef.isRequired && !(varName in providedVariables)) {
-        this.log(`Required variable ${varName} is not provided`)
-        throw new ValidationError(
-          `Required variable ${varName} is not provided`
-        )
+  async fetchMore (
+    operationString: string,
+    variables: { [key: string]: any } = {}
+  ): Promise<{ shapedData: any; rawResponses: { [key: string]: any } }> {
+    const parsedOperation = this.queryParser.parse(operationString)
+    this.queryValidator.validate(parsedOperation)
+    if (parsedOperation.operationType !== 'query') {
+      throw new ValidationError('fetchMore only supports query operations')
+    }
+    for (const query of parsedOperation.queries) {
+      if (!getSchemaResource(this.schema, query.queryName)?.endpoints.GET?.paginate) {
+        throw new ValidationError(`Resource "${query.queryName}" is not paginated`)
       }
     }
-    this.log('Variable validation completed successfully')
+    const definedVariables = this.variableValidator.validate(
+      parsedOperation.variables,
+      this.filterDefinedVariables(variables)
+    )
+
+    const context = { operationName: parsedOperation.operationName }
+    const shapedData: any = {}
+    const rawResponses: { [key: string]: any } = {}
+    await Promise.all(
+      parsedOperation.queries.map(async (query) => {
+        const resourceSchema = getSchemaResource(this.schema, query.queryName) as SchemaResource
+        const responseKey = query.alias ?? query.queryName
+        const cacheKey = this.getCacheKey(query.queryName, query.args, query.fields, definedVariables)
+        const cachedResult = await this.cacheManager.get<{
+          shapedData: Connection<any>;
+          rawResponse: any[];
+        }>(cacheKey)
+
+        let result = cachedResult
+        if (!cachedResult) {
+          result = await this.fetchQuery(query, resourceSchema, definedVariables, cacheKey, context)
+        } else if (cachedResult.shapedData.pageInfo.hasNextPage) {
+          const nextPage = await this.executePaginatedQuery(
+            query,
+            resourceSchema,
+            definedVariables,
+            cachedResult.shapedData.pageInfo.endCursor ?? undefined,
+            1,
+            context
+          )
+          result = {
+            shapedData: {
+              items: [...cachedResult.shapedData.items, ...nextPage.shapedData.items],
+              pageInfo: nextPage.shapedData.pageInfo
+            },
+            rawResponse: [...cachedResult.rawResponse, ...nextPage.rawResponse]
+          }
+          await this.cacheQueryResult(
+            query,
+            resourceSchema,
+            definedVariables,
+            cacheKey,
+            result,
+            nextPage.cacheInfo
+          )
+        }
+
+        shapedData[responseKey] = result?.shapedData
+        rawResponses[responseKey] = result?.rawResponse
+      })
+    )
+    return { shapedData, rawResponses }
+  }
+
+  /**
+   * Iterates over the items of a paginated query, fetching one page at a time so only the
+   * current page is held in memory. Each item is shaped before it is yielded, and results
+   * are neither read from nor written to the cache.
+   * @param {string} operationString - A query operation with a single top-level query on a paginated resource
+   * @param {{ [key: string]: any }} [variables={}] - Variables for the operation
+   * @param {IterateOptions} [options={}] - Iteration options, including an AbortSignal stopping the iteration
+   * @returns {AsyncIterableIterator<any>} The shaped items
+   * @throws {ValidationError} If the operation is not a single query on a paginated resource or its variables are invalid
+   * @throws {AbortError} If the signal is aborted
+   */
+  async * iterate (
+    operationString: string,
+    variables: { [key: string]: any } = {},
+    { signal }: IterateOptions = {}
+  ): AsyncIterableIterator<any> {
+    const parsedOperation = this.queryParser.parse(operationString)
+    this.queryValidator.validate(parsedOperation)
+    if (parsedOperation.operationType !== 'query' || parsedOperation.queries.length !== 1) {
+      throw new ValidationError('iterate requires a query operation with a single top-level query')
+    }
+    const [query] = parsedOperation.queries
+    const resourceSchema = getSchemaResource(this.schema, query.queryName)
+    if (!resourceSchema?.endpoints.GET?.paginate) {
+      throw new ValidationError(`Resource "${query.queryName}" is not paginated`)
+    }
+    const definedVariables = this.variableValidator.validate(
+      parsedOperation.variables,
+      this.filterDefinedVariables(variables)
+    )
+
+    const abortScope = createAbortScope(signal, undefined, 'Iteration')
+    const context = { operationName: parsedOperation.operationName, signal: abortScope.signal }
+    try {
+      let pageToken: string | undefined
+      do {
+        abortScope.signal.throwIfAborted()
+        const page = await this.executor.executePage(
+          query,
+          resourceSchema,
+          definedVariables,
+          pageToken,
+          this.withResourceName(context, query.queryName)
+        )
+        this.log(`Iterating over page of ${page.items.length} items`)
+        for (const item of page.items) {
+          abortScope.signal.throwIfAborted()
+          yield await this.shapeData(
+            item,
+            query,
+            resourceSchema,
+            definedVariables,
+            { [query.queryName]: page.data },
+            context
+          )
+        }
+        pageToken = page.pageInfo.endCursor ?? undefined
+      } while (pageToken !== undefined)
+    } finally {
+      abortScope.clear()
+    }
   }
 
   /**
-   * Executes a query operation.
+   * Adds a middleware to the chain every request goes through, after the middleware of the
+   * `middleware` option and those added before. A middleware receives the request context, with
+   * its method, URL, headers, body, resource name and operation name, and calls `next` to send it.
+   * @param {Middleware} middleware - The middleware to add
+   * @returns {RestQL} The instance, for chaining
+   */
+  use (middleware: Middleware): RestQL {
+    this.executor.use(middleware)
+    return this
+  }
+
+  /**
+   * Returns the hit, miss, eviction and expiration counters of the query cache.
+   * @returns {CacheStats} The cache statistics
+   */
+  getCacheStats (): CacheStats {
+    return this.cacheManager.getStats()
+  }
+
+  /**
+   * Stops the periodic sweep of expired cache items started by the `cacheSweepInterval` option.
+   */
+  stopCacheSweep (): void {
+    this.cacheManager.stopSweep()
+  }
+
+  /**
+   * Executes a query operation. Each top-level query is answered from the cache or the
+   * network according to the fetch policy:
+   * - `cache-first` reads the cache and only fetches on a miss
+   * - `network-only` always fetches and caches the result
+   * - `cache-only` only reads the cache and throws a CacheMissError on a miss
+   * - `cache-and-network` reads the cache and refreshes it in the background
+   * Stale results of resources declaring `@cache(swr: ...)` are served while they are refreshed in the background.
    * @param {ParsedOperation} parsedOperation - The parsed query operation
    * @param {VariableValues} variables - The variables for the query
    * @param {boolean} useCache - Whether to use caching
+   * @param {FetchPolicy} fetchPolicy - How the cache and the network are used
+   * @param {ExecutionContext} [context={}] - The operation name and the signal aborting the requests of the operation
    * @returns {Promise<{ shapedData: any; rawResponses: { [key: string]: any } }>} The query results
+   * @throws {CacheMissError} If a query is not cached with the `cache-only` fetch policy
    * @private
    */
   private async executeQuery (
     parsedOperation: ParsedOperation,
     variables: VariableValues,
-    useCache: boolean
+    useCache: boolean,
+    fetchPolicy: FetchPolicy,
+    context: ExecutionContext = {}
   ): Promise<{ shapedData: any; rawResponses: { [key: string]: any } }> {
     const results: any = {}
     const rawResponses: { [key: string]: any } = {}
     const batchPromises: Promise<void>[] = []
 
     for (const query of parsedOperation.queries) {
-      const resourceSchema = this.schema[query.queryName.toLowerCase()]
+      const resourceSchema = getSchemaResource(this.schema, query.queryName)
       if (!resourceSchema) {
         throw new Error(`Resource "${query.queryName}" not found in schema.`)
       }
 
-      const cacheKey = this.getCacheKey(query.queryName, query.args, variables)
-      if (useCache && this.cacheManager.has(cacheKey)) {
-        const cachedResult = this.cacheManager.get(cacheKey)
-        results[query.queryName] = cachedResult.shapedData
-        rawResponses[query.queryName] = cachedResult.rawResponse
+      const responseKey = query.alias ?? query.queryName
+      const cacheKey = this.getCacheKey(
+        query.queryName,
+        query.args,
+        query.fields,
+        variables
+      )
+      const cachedResult =
+        useCache && fetchPolicy !== 'network-only'
+          ? await this.readCachedQuery(query, cacheKey, variables)
+          : null
+
+      if (cachedResult) {
+        results[responseKey] = cachedResult.shapedData
+        rawResponses[responseKey] = cachedResult.rawResponse
+        if (
+          fetchPolicy !== 'cache-only' &&
+          (cachedResult.isStale || fetchPolicy === 'cache-and-network')
+        ) {
+          this.revalidateQuery(query, resourceSchema, variables, cacheKey, context.operationName)
+        }
+      } else if (useCache && fetchPolicy === 'cache-only') {
+        throw new CacheMissError(
+          `No cached result for "${responseKey}" with the cache-only fetch policy`
+        )
       } else {
         batchPromises.push(
           this.batchManager.add(query.queryName, async () => {
-            const result = await this.executeQueryField(
-              query.queryName,
-              query.fields,
-              query.args,
+            const result = await this.fetchQuery(
+              query,
+              resourceSchema,
               variables,
-              resourceSchema
+              useCache ? cacheKey : null,
+              context
             )
-            results[query.queryName] = result.shapedData
-            rawResponses[query.queryName] = result.rawResponse
-
-            if (useCache) {
-              this.cacheManager.set(cacheKey, result)
-            }
-          })
+            results[responseKey] = result.shapedData
+            rawResponses[responseKey] = result.rawResponse
+          }, context.signal)
         )
       }
     }
@@ -196,106 +431,507 @@ export class RestQL extends Logger {
   }
 
   /**
-   * Executes a mutation operation.
+   * Fetches a top-level query and caches its result. Cached responses carrying an `ETag`
+   * or `Last-Modified` header are revalidated with a conditional request, and a `304`
+   * response renews the cached result. The `@cache` policy of the resource takes
+   * precedence over the `Cache-Control` header of the response.
+   * @param {ParsedQuery} query - The top-level query
+   * @param {SchemaResource} resourceSchema - The schema of the queried resource
+   * @param {VariableValues} variables - The variables for the query
+   * @param {string | null} cacheKey - The cache key of the query, or null to skip caching
+   * @param {ExecutionContext} [context={}] - The operation name and the signal aborting the requests of the query
+   * @returns {Promise<{ shapedData: any; rawResponse: any }>} The query result
+   * @private
+   */
+  private async fetchQuery (
+    query: ParsedQuery,
+    resourceSchema: SchemaResource,
+    variables: VariableValues,
+    cacheKey: string | null,
+    context: ExecutionContext = {}
+  ): Promise<{ shapedData: any; rawResponse: any }> {
+    const revalidationEntry = cacheKey !== null
+      ? await this.cacheManager.getRevalidationEntry<{
+        shapedData: any;
+        rawResponse: any;
+      }>(cacheKey)
+      : null
+    const isNormalized = this.isNormalized(resourceSchema)
+    const { shapedData, rawResponse, cacheInfo } = resourceSchema.endpoints.GET?.paginate
+      ? await this.executePaginatedQuery(query, resourceSchema, variables, undefined, undefined, context)
+      : await this.executeQueryField(
+        query.queryName,
+        query.fields,
+        query.args,
+        variables,
+        resourceSchema,
+        revalidationEntry?.validators,
+        context
+      )
+
+    let result = { shapedData, rawResponse }
+    let cachedData = result
+    if (cacheInfo.notModified && revalidationEntry) {
+      cachedData = revalidationEntry.data
+      const cachedShapedData = isNormalized
+        ? this.entityStore.read(cachedData.shapedData, query.fields, variables)
+        : { data: cachedData.shapedData }
+      if (!cachedShapedData) {
+        // The entities of the cached result expired, so the response body is needed again
+        await this.cacheManager.invalidate(cacheKey as string)
+        return this.fetchQuery(query, resourceSchema, variables, cacheKey, context)
+      }
+      result = { shapedData: cachedShapedData.data, rawResponse: cachedData.rawResponse }
+    } else if (isNormalized) {
+      cachedData = {
+        shapedData: this.entityStore.write(
+          shapedData,
+          query.fields,
+          query.queryName,
+          variables
+        ),
+        rawResponse
+      }
+    }
+
+    if (cacheKey !== null) {
+      await this.cacheQueryResult(query, resourceSchema, variables, cacheKey, cachedData, cacheInfo)
+    }
+    return result
+  }
+
+  /**
+   * Caches the result of a top-level query. The `@cache` policy of the resource takes
+   * precedence over the `Cache-Control` header of the response.
+   * @param {ParsedQuery} query - The top-level query
+   * @param {SchemaResource} resourceSchema - The schema of the queried resource
+   * @param {VariableValues} variables - The variables for the query
+   * @param {string} cacheKey - The cache key of the query
+   * @param {{ shapedData: any; rawResponse: any }} cachedData - The result to cache
+   * @param {HttpCacheInfo} cacheInfo - The caching information of the response
+   * @private
+   */
+  private async cacheQueryResult (
+    query: ParsedQuery,
+    resourceSchema: SchemaResource,
+    variables: VariableValues,
+    cacheKey: string,
+    cachedData: { shapedData: any; rawResponse: any },
+    cacheInfo: HttpCacheInfo
+  ): Promise<void> {
+    const cachePolicy = resourceSchema.cache ?? {}
+    if (resourceSchema.cache || !cacheInfo.noStore) {
+      await this.cacheManager.set(
+        cacheKey,
+        cachedData,
+        cachePolicy.ttl ?? cacheInfo.maxAge,
+        this.getCacheTags(query, variables),
+        { staleWhileRevalidate: cachePolicy.swr, validators: cacheInfo.validators }
+      )
+    }
+  }
+
+  /**
+   * Fetches the pages of a query to an endpoint declaring `@paginate` and shapes the result as a
+   * connection: the shaped items of every page and the page info of the last one. Pages are
+   * fetched until the last page or the `maxPages` limit of the pagination policy.
+   * @param {ParsedQuery} query - The top-level query
+   * @param {SchemaResource} resourceSchema - The schema of the queried resource
+   * @param {VariableValues} variables - The variables for the query
+   * @param {string} [pageToken] - The token of the first page to fetch, the `endCursor` of an earlier page
+   * @param {number} [maxPages] - The maximum number of pages to fetch
+   * @param {ExecutionContext} [context={}] - The operation name and the signal aborting the requests of the query
+   * @returns {Promise<{ shapedData: Connection<any>; rawResponse: any[]; cacheInfo: HttpCacheInfo }>} The connection, the responses of the pages and the caching information of the last page
+   * @private
+   */
+  private async executePaginatedQuery (
+    query: ParsedQuery,
+    resourceSchema: SchemaResource,
+    variables: VariableValues,
+    pageToken?: string,
+    maxPages: number = resourceSchema.endpoints.GET?.paginate?.maxPages ?? 1,
+    context: ExecutionContext = {}
+  ): Promise<{ shapedData: Connection<any>; rawResponse: any[]; cacheInfo: HttpCacheInfo }> {
+    const items: any[] = []
+    const rawResponse: any[] = []
+    let pageInfo = { hasNextPage: true, endCursor: pageToken ?? null }
+    let cacheInfo: HttpCacheInfo = { notModified: false, validators: {}, noStore: false }
+
+    for (let pageCount = 0; pageCount < maxPages && pageInfo.hasNextPage; pageCount++) {
+      const page = await this.executor.executePage(
+        { queryName: query.queryName, fields: query.fields, args: query.args },
+        resourceSchema,
+        variables,
+        pageInfo.endCursor ?? undefined,
+        this.withResourceName(context, query.queryName)
+      )
+      items.push(
+        ...(await this.shapeData(
+          page.items,
+          query,
+          resourceSchema,
+          variables,
+          { [query.queryName]: page.data },
+          context
+        ))
+      )
+      rawResponse.push(page.data)
+      pageInfo = page.pageInfo
+      cacheInfo = page.cacheInfo
+    }
+
+    return { shapedData: { items, pageInfo }, rawResponse, cacheInfo }
+  }
+
+  /**
+   * Names the resource the requests of a query or mutation are sent for, as passed to middleware.
+   * Nested resources are already named by their parent, and other resources are named by their
+   * schema key, e.g. `user` for `User`, whichever way the query writes them.
+   * @param {ExecutionContext} context - The execution context
+   * @param {string} typeName - The name of the resource type
+   * @returns {ExecutionContext} The execution context naming the resource
+   * @private
+   */
+  private withResourceName (context: ExecutionContext, typeName: string): ExecutionContext {
+    return {
+      ...context,
+      resourceName: context.resourceName ?? getCanonicalTypeName(this.schema, typeName) ?? typeName
+    }
+  }
+
+  /**
+   * Checks whether the results of a resource are stored in the normalized cache.
+   * Paginated results are cached as connections instead.
+   * @param {SchemaResource | undefined} resourceSchema - The schema of the queried resource
+   * @returns {boolean} True if the results are normalized, false otherwise
+   * @private
+   */
+  private isNormalized (resourceSchema: SchemaResource | undefined): boolean {
+    return this.options.normalizedCache && !resourceSchema?.endpoints.GET?.paginate
+  }
+
+  /**
+   * Refreshes the cached result of a query in the background. Failures are logged and
+   * leave the cached result in place, and a query is only refreshed once at a time.
+   * @param {ParsedQuery} query - The top-level query
+   * @param {SchemaResource} resourceSchema - The schema of the queried resource
+   * @param {VariableValues} variables - The variables for the query
+   * @param {string} cacheKey - The cache key of the query
+   * @param {string} [operationName] - The name of the operation that read the cached result
+   * @private
+   */
+  private revalidateQuery (
+    query: ParsedQuery,
+    resourceSchema: SchemaResource,
+    variables: VariableValues,
+    cacheKey: string,
+    operationName?: string
+  ): void {
+    if (this.revalidatingCacheKeys.has(cacheKey)) {
+      return
+    }
+    this.revalidatingCacheKeys.add(cacheKey)
+    this.log(`Revalidating cached query: ${cacheKey}`)
+
+    this.batchManager
+      .add(query.queryName, () =>
+        // The refresh outlives the operation, so it does not follow its signal
+        this.fetchQuery(query, resourceSchema, variables, cacheKey, { operationName })
+      )
+      .catch((error) => {
+        this.error(`Error revalidating cached query ${cacheKey}:`, error)
+      })
+      .finally(() => {
+        this.revalidatingCacheKeys.delete(cacheKey)
+      })
+  }
+
+  /**
+   * Reads the cached result of a top-level query. With the normalized cache, cached
+   * results hold entity references that are resolved against the entity store, and a
+   * query selecting a single entity by its key is answered from the entity store even
+   * if the query itself was never cached.
+   * @param {ParsedQuery} query - The top-level query
+   * @param {string} cacheKey - The cache key of the query
+   * @param {VariableValues} variables - The variables for the query
+   * @returns {Promise<{ shapedData: any; rawResponse: any; isStale: boolean } | null>} The cached result, stale if it should be revalidated, or null on a cache miss
+   * @private
+   */
+  private async readCachedQuery (
+    query: ParsedQuery,
+    cacheKey: string,
+    variables: VariableValues
+  ): Promise<{ shapedData: any; rawResponse: any; isStale: boolean } | null> {
+    const cachedEntry = await this.cacheManager.getEntry<{
+      shapedData: any;
+      rawResponse: any;
+    }>(cacheKey)
+    if (!this.isNormalized(getSchemaResource(this.schema, query.queryName))) {
+      return cachedEntry && { ...cachedEntry.data, isStale: cachedEntry.isStale }
+    }
+
+    const normalizedData =
+      cachedEntry?.data.shapedData ??
+      this.entityStore.getEntityReference(
+        query.queryName,
+        this.resolveVariables(query.args, variables)
+      )
+    const entityResult = normalizedData
+      ? this.entityStore.read(normalizedData, query.fields, variables)
+      : null
+    return entityResult
+      ? {
+          shapedData: entityResult.data,
+          rawResponse: cachedEntry?.data.rawResponse ?? null,
+          isStale: cachedEntry?.isStale ?? false
+        }
+      : null
+  }
+
+  /**
+   * Executes a mutation operation. Mutations run one after the other in the order they
+   * are written, so a later mutation may depend on the effects of an earlier one,
+   * unless parallel execution is requested.
    * @param {ParsedOperation} parsedOperation - The parsed mutation operation
    * @param {VariableValues} variables - The variables for the mutation
-   * @returns {Promise<any[]>} The mutation results
+   * @param {boolean} parallel - Whether to run the mutations concurrently
+   * @param {ExecutionContext} [context={}] - The operation name and the signal aborting the requests of the operation
+   * @returns {Promise<{ shapedData: any; rawResponses: { [key: string]: any } }>} The mutation results keyed by response key
    * @private
    */
   private async executeMutation (
     parsedOperation: ParsedOperation,
-    variables: VariableValues
-  ): Promise<any[]> {
-    this.log('executeMutation called with:', { parsedOperation, variables })
-    const results: any[] = []
-    const batchPromises: Promise<void>[] = []
+    variables: VariableValues,
+    parallel: boolean,
+    context: ExecutionContext = {}
+  ): Promise<{ shapedData: any; rawResponses: { [key: string]: any } }> {
+    this.log('executeMutation called with:', { parsedOperation, variables, parallel })
+    const results: any = {}
+    const rawResponses: { [key: string]: any } = {}
+    let mutationResults: Array<{ shapedData: any; rawResponse: any }> = []
 
-    for (const mutation of parsedOperation.queries) {
-      this.log('Processing mutation:', mutation)
-      batchPromises.push(
-        this.batchManager.add(mutation.queryName, async () => {
-          const [operationType, resourceName] = this.parseMutationType(
-            mutation.queryName
+    if (parallel) {
+      mutationResults = await Promise.all(
+        parsedOperation.queries.map((mutation) =>
+          this.batchManager.add(
+            mutation.queryName,
+            () => this.executeMutationField(mutation, variables, context),
+            context.signal
           )
-          const resourceSchema = this.schema[resourceName.toLowerCase()]
-          if (!resourceSchema) {
-            throw new Error(`Resource "${resourceName}" not found in schema.`)
-          }
+        )
+      )
+    } else {
+      const operationVariables = { ...variables }
+      for (const mutation of parsedOperation.queries) {
+        const mutationResult = await this.executeMutationField(
+          mutation,
+          operationVariables,
+          context
+        )
+        this.exportFieldValues(
+          mutation.fields,
+          mutationResult.shapedData,
+          operationVariables
+        )
+        mutationResults.push(mutationResult)
+      }
+    }
 
-          const method = this.getHttpMethodForOperation(operationType)
-          const endpoint = resourceSchema.endpoints[method]
-          if (!endpoint) {
-            throw new Error(
-              `${method} endpoint not found for resource "${resourceName}".`
-            )
-          }
+    // Results are keyed in the order the mutations are written, regardless of completion order
+    parsedOperation.queries.forEach((mutation, index) => {
+      const responseKey = mutation.alias ?? mutation.queryName
+      results[responseKey] = mutationResults[index].shapedData
+      rawResponses[responseKey] = mutationResults[index].rawResponse
+    })
 
-          const result = await this.executor.execute(
-            mutation,
-            resourceSchema,
-            variables,
-            method
-          )
-          const dataPath = resourceSchema.dataPath || ''
-          const extractedData = this.extractNestedValue(result, dataPath)
-          const shapedResult = await this.shapeData(
-            extractedData,
-            mutation,
-            resourceSchema,
-            variables
-          )
+    return { shapedData: results, rawResponses }
+  }
 
-          this.log('Shaped result before cherry-picking:', shapedResult)
-          const pickedResult = this.cherryPickFields(
-            shapedResult,
-            mutation.fields
-          )
-          this.log('Cherry-picked result:', pickedResult)
-          results.push(pickedResult)
-        })
-      )
+  /**
+   * Writes the values of fields marked with `@export(as: "name")` into the variables
+   * used by the following mutations. Values selected within lists are exported as lists.
+   * @param {{ [key: string]: ParsedField }} fields - The selected fields
+   * @param {any} data - The shaped data of the selection set
+   * @param {VariableValues} variables - The variables to write to
+   * @private
+   */
+  private exportFieldValues (
+    fields: { [key: string]: ParsedField },
+    data: any,
+    variables: VariableValues
+  ): void {
+    for (const [responseKey, field] of Object.entries(fields)) {
+      const value = Array.isArray(data)
+        ? data.map((item) => item?.[responseKey])
+        : data?.[responseKey]
+
+      const exportName = getExportName(field)
+      if (exportName) {
+        this.log(`Exporting ${responseKey} as $${exportName}:`, value)
+        variables[exportName] = value
+      }
+      if (field.fields) {
+        this.exportFieldValues(field.fields, value, variables)
+      }
     }
+  }
 
-    await Promise.all(batchPromises)
-    return results
+  /**
+   * Executes a single top-level mutation field.
+   * @param {ParsedQuery} mutation - The parsed mutation field
+   * @param {VariableValues} variables - The variables for the mutation
+   * @param {ExecutionContext} [context={}] - The operation name and the signal aborting the requests of the mutation
+   * @returns {Promise<{ shapedData: any; rawResponse: any }>} The mutation result
+   * @private
+   */
+  private async executeMutationField (
+    mutation: ParsedQuery,
+    variables: VariableValues,
+    context: ExecutionContext = {}
+  ): Promise<{ shapedData: any; rawResponse: any }> {
+    this.log('Processing mutation:', mutation)
+    const { endpoint, returnType, returnSchema, resourceName } =
+      this.resolveMutation(mutation.queryName)
+
+    const result = await this.executor.execute(
+      mutation,
+      { fields: returnSchema?.fields ?? {}, endpoints: { [endpoint.method]: endpoint } },
+      variables,
+      endpoint.method,
+      resourceName ? this.withResourceName(context, resourceName) : context
+    )
+    await this.invalidateCachedQueries(
+      endpoint,
+      resourceName,
+      this.resolveVariables(mutation.args, variables)
+    )
+    const dataPath = endpoint.dataPath || ''
+    const extractedData = this.extractNestedValue(result, dataPath)
+    if (!returnSchema) {
+      return {
+        shapedData: this.coerceValue(extractedData, returnType),
+        rawResponse: result
+      }
+    }
+
+    const shapedResult = await this.shapeData(
+      extractedData,
+      mutation,
+      returnSchema,
+      variables,
+      {},
+      context
+    )
+
+    this.log('Shaped result before cherry-picking:', shapedResult)
+    const pickedResult = this.cherryPickFields(shapedResult, mutation.fields)
+    this.log('Cherry-picked result:', pickedResult)
+    if (this.options.normalizedCache && endpoint.method === HttpMethod.DELETE) {
+      // Deleted objects must not be answered from the entities they were cached in
+      const deletedItems = Array.isArray(pickedResult) ? pickedResult : [pickedResult]
+      deletedItems
+        .filter((item) => typeof item === 'object' && item !== null)
+        .forEach((item) => this.entityStore.evict(returnType.type, item))
+    } else if (this.options.normalizedCache) {
+      // Keyed objects returned by the mutation update the entities cached queries read from
+      this.entityStore.write(pickedResult, mutation.fields, returnType.type, variables)
+    }
+    return { shapedData: pickedResult, rawResponse: result }
   }
 
   /**
-   * Parses the mutation type from the mutation name.
-   * @param {string} mutationName - The name of the mutation
-   * @returns {[string, string]} The operation type and resource name
-   * @throws {Error} If the mutation type is unknown
+   * Invalidates the cached queries affected by a successful mutation. When the mutation
+   * has an `id` argument, only queries for that id and queries without an id are
+   * invalidated; otherwise every query of the resource is. Targets declared with
+   * `@invalidates` on the endpoint are invalidated as well. With the normalized cache,
+   * the entity selected by the key among the arguments is evicted too.
+   * @param {Endpoint} endpoint - The endpoint of the mutation
+   * @param {string | undefined} resourceName - The resource affected by the mutation
+   * @param {{ [key: string]: any }} resolvedArgs - The resolved arguments of the mutation
    * @private
    */
-  private parseMutationType (mutationName: string): [string, string] {
-    const operationTypes = ['create', 'update', 'patch', 'delete']
-    for (const opType of operationTypes) {
-      if (mutationName.toLowerCase().startsWith(opType)) {
-        return [opType, mutationName.slice(opType.length)]
+  private async invalidateCachedQueries (
+    endpoint: Endpoint,
+    resourceName: string | undefined,
+    resolvedArgs: { [key: string]: any }
+  ): Promise<void> {
+    const tags = (endpoint.invalidates ?? []).map((target) => {
+      const [targetResourceName, targetFieldName] = target.split('.')
+      return targetFieldName
+        ? `${targetResourceName.toLowerCase()}.${targetFieldName}`
+        : targetResourceName.toLowerCase()
+    })
+
+    if (resourceName) {
+      if (this.options.normalizedCache) {
+        this.entityStore.evict(resourceName, resolvedArgs)
+      }
+      const resourceKey = resourceName.toLowerCase()
+      if (resolvedArgs.id !== undefined) {
+        tags.push(`${resourceKey}:id=${resolvedArgs.id}`, `${resourceKey}:list`)
+      } else {
+        tags.push(resourceKey)
       }
     }
-    throw new Error(`Unknown mutation type: ${mutationName}`)
+
+    if (tags.length > 0) {
+      await this.cacheManager.invalidateTags(tags)
+    }
   }
 
   /**
-   * Gets the HTTP method for a given operation type.
-   * @param {string} operationType - The type of operation
-   * @returns {HttpMethod} The corresponding HTTP method
-   * @throws {Error} If the operation type is unsupported
+   * Resolves the endpoint and return type of a mutation. Mutations declared in the
+   * `Mutation` type of the schema take precedence; otherwise the HTTP method and the
+   * resource are inferred from the name prefix (e.g. `createUser`).
+   * @param {string} mutationName - The name of the mutation
+   * @returns {{ endpoint: Endpoint; returnType: SchemaField; returnSchema?: SchemaResource | ValueType; resourceName?: string }} The resolved mutation, without a return schema for scalar results and without a resource name if it does not return a resource
+   * @throws {Error} If the mutation cannot be resolved
    * @private
    */
-  private getHttpMethodForOperation (operationType: string): HttpMethod {
-    switch (operationType) {
-      case 'create':
-        return HttpMethod.POST
-      case 'update':
-        return HttpMethod.PUT
-      case 'patch':
-        return HttpMethod.PATCH
-      case 'delete':
-        return HttpMethod.DELETE
-      default:
-        throw new Error(`Unsupported operation type: ${operationType}`)
+  private resolveMutation (mutationName: string): {
+    endpoint: Endpoint;
+    returnType: SchemaField;
+    returnSchema?: SchemaResource | ValueType;
+    resourceName?: string;
+  } {
+    const mutationDefinition = this.schema._mutations?.[mutationName]
+    if (mutationDefinition) {
+      const typeName = mutationDefinition.type.replace(/[[\]!]/g, '')
+      const returnResource = getSchemaResource(this.schema, typeName)
+      return {
+        endpoint: mutationDefinition.endpoint,
+        returnType: {
+          type: mutationDefinition.type,
+          isNullable: mutationDefinition.isNullable
+        },
+        returnSchema: returnResource ?? this.schema._types[typeName],
+        resourceName: returnResource ? typeName : undefined
+      }
+    }
+
+    const mutationTarget = parseMutationName(mutationName)
+    if (!mutationTarget) {
+      throw new Error(`Unknown mutation type: ${mutationName}`)
+    }
+
+    const { method, resourceName } = mutationTarget
+    const resourceSchema = getSchemaResource(this.schema, resourceName)
+    if (!resourceSchema) {
+      throw new Error(`Resource "${resourceName}" not found in schema.`)
+    }
+
+    const endpoint = resourceSchema.endpoints[method]
+    if (!endpoint) {
+      throw new Error(
+        `${method} endpoint not found for resource "${resourceName}".`
+      )
+    }
+
+    return {
+      endpoint,
+      returnType: { type: resourceName, isNullable: true },
+      returnSchema: resourceSchema,
+      resourceName
     }
   }
 
@@ -360,6 +996,7 @@ export class RestQL extends Logger {
    * @param {SchemaResource | ValueType} resourceSchema - The schema for the resource
    * @param {VariableValues} variables - The variables for the query
    * @param {{ [key: string]: any }} [rawResponses={}] - The raw responses
+   * @param {ExecutionContext} [context={}] - The operation name and the signal aborting the requests of nested resources
    * @returns {Promise<any>} The shaped data
    * @private
    */
@@ -368,19 +1005,21 @@ export class RestQL extends Logger {
     query: ParsedQuery,
     resourceSchema: SchemaResource | ValueType,
     variables: VariableValues,
-    rawResponses: { [key: string]: any } = {}
+    rawResponses: { [key: string]: any } = {},
+    context: ExecutionContext = {}
   ): Promise<any> {
     if (Array.isArray(data)) {
       return Promise.all(
         data.map((item) =>
-          this.shapeData(item, query, resourceSchema, variables, rawResponses)
+          this.shapeData(item, query, resourceSchema, variables, rawResponses, context)
         )
       )
     }
 
     const shapedData: any = {}
 
-    for (const [fieldName, fieldValue] of Object.entries(query.fields)) {
+    for (const [responseKey, fieldValue] of Object.entries(query.fields)) {
+      const fieldName = fieldValue.name ?? responseKey
       const fieldSchema = resourceSchema.fields?.[fieldName]
       if (!fieldSchema) {
         this.warn(
@@ -393,16 +1032,61 @@ export class RestQL extends Logger {
       let rawValue = this.extractNestedValue(data, fromPath)
 
       try {
-        // Apply type coercion and nullability check
-        rawValue = this.coerceValue(rawValue, fieldSchema)
+        // Apply type coercion and nullability check, unless the value is resolved from another request
+        if (!fieldSchema.resolve || (rawValue !== null && rawValue !== undefined)) {
+          rawValue = this.coerceValue(rawValue, fieldSchema)
+        }
 
-        if (
-          fieldSchema.isResource ||
-          this.schema[fieldSchema.type.toLowerCase()]
-        ) {
-          const nestedResourceSchema =
-            this.schema[fieldSchema.type.toLowerCase()]
-          if (nestedResourceSchema) {
+        const nestedResourceName = fieldSchema.type.replace(/[\[\]!]/g, '').toLowerCase()
+        const nestedResourceSchema = getSchemaResource(this.schema, nestedResourceName)
+        const isReferenceList = Array.isArray(rawValue) && rawValue.some((item) => this.isReferenceKey(item))
+        if (nestedResourceSchema && typeof rawValue === 'object' && rawValue !== null && !isReferenceList) {
+          // The parent embeds the nested resource, so no request is needed
+          if (fieldValue.fields) {
+            rawValue = await this.shapeData(
+              rawValue,
+              { fields: fieldValue.fields },
+              nestedResourceSchema,
+              variables,
+              rawResponses,
+              context
+            )
+          }
+        } else if (nestedResourceSchema) {
+          const nestedContext = { ...context, resourceName: nestedResourceName }
+          if (fieldSchema.resolve) {
+            rawValue = await this.loadNestedResource(
+              fieldName,
+              fieldValue,
+              this.resolveParentArguments(fieldSchema.resolve.args, data),
+              variables,
+              nestedResourceSchema,
+              nestedContext
+            )
+          } else if (this.isReferenceKey(rawValue) || isReferenceList) {
+            // The parent references the nested resources, e.g. `author: User @from("author_id")`
+            // or `posts: [Post] @from("post_ids")`, which are loaded one key at a time
+            const keyArgName =
+              nestedResourceSchema.endpoints.GET?.batch?.key ?? nestedResourceSchema.key ?? 'id'
+            const loadReference = (key: any) =>
+              this.isReferenceKey(key)
+                ? this.loadNestedResource(
+                  fieldName,
+                  fieldValue,
+                  { [keyArgName]: key },
+                  variables,
+                  nestedResourceSchema,
+                  nestedContext
+                )
+                : null
+            rawValue = isReferenceList
+              ? await Promise.all(rawValue.map(loadReference))
+              : await loadReference(rawValue)
+          } else if (fieldSchema.type.includes('[')) {
+            this.warn(
+              `List field "${fieldName}" of type ${fieldSchema.type} has no @resolve, embedded items or references. Skipping.`
+            )
+          } else {
             const nestedQuery = {
               queryName: fieldName,
               args: fieldValue.args || {},
@@ -413,7 +1097,9 @@ export class RestQL extends Logger {
               nestedQuery.fields,
               nestedQuery.args,
               variables,
-              nestedResourceSchema
+              nestedResourceSchema,
+              {},
+              nestedContext
             )
             rawValue = nestedResult.shapedData
           }
@@ -426,7 +1112,8 @@ export class RestQL extends Logger {
               { fields: fieldValue.fields },
               nestedSchema,
               variables,
-              rawResponses
+              rawResponses,
+              context
             )
           } else {
             this.warn(`Schema not found for nested type: ${nestedType}`)
@@ -441,14 +1128,14 @@ export class RestQL extends Logger {
           )
         }
 
-        shapedData[fieldName] = rawValue
+        shapedData[responseKey] = rawValue
       } catch (error) {
         if (error instanceof ValidationError) {
           this.error(`Validation error for field ${fieldName}:`, error.message)
           if (!fieldSchema.isNullable) {
             throw error
           }
-          shapedData[fieldName] = null
+          shapedData[responseKey] = null
         } else {
           throw error
         }
@@ -496,6 +1183,7 @@ export class RestQL extends Logger {
       case 'Boolean':
         return Boolean(value)
       case 'String':
+      case 'ID':
         return String(value)
       case 'Int':
         const num = Number(value)
@@ -503,12 +1191,28 @@ export class RestQL extends Logger {
           throw new ValidationError(`Invalid integer value: ${value}`)
         }
         return num
+      case 'Float':
+        const float = Number(value)
+        if (!isFinite(float)) {
+          throw new ValidationError(`Invalid float value: ${value}`)
+        }
+        return float
       default:
         // For custom types, we don't perform any coercion
         return value
     }
   }
 
+  /**
+   * Checks whether a value is the key of a referenced resource.
+   * @param {any} value - The value to check
+   * @returns {boolean} True if the value is a string or number key, false otherwise
+   * @private
+   */
+  private isReferenceKey (value: any): value is string | number {
+    return typeof value === 'string' || typeof value === 'number'
+  }
+
   /**
    * Executes a query for a specific field.
    * @param {string} fieldName - The name of the field
@@ -516,7 +1220,9 @@ export class RestQL extends Logger {
    * @param {any} args - The arguments for the query
    * @param {VariableValues} variables - The variables for the query
    * @param {SchemaResource} resourceSchema - The schema for the resource
-   * @returns {Promise<{ shapedData: any; rawResponse: any }>} The query result
+   * @param {HttpCacheValidators} [validators={}] - The validators of a cached response to revalidate
+   * @param {ExecutionContext} [context={}] - The operation name and the signal aborting the requests of the query
+   * @returns {Promise<{ shapedData: any; rawResponse: any; cacheInfo: HttpCacheInfo }>} The query result, without data if the cached response is still valid
    * @throws {Error} If the endpoint is not found or if there's an error during execution
    * @private
    */
@@ -525,8 +1231,10 @@ export class RestQL extends Logger {
     fields: any,
     args: any,
     variables: VariableValues,
-    resourceSchema: SchemaResource
-  ): Promise<{ shapedData: any; rawResponse: any }> {
+    resourceSchema: SchemaResource,
+    validators: HttpCacheValidators = {},
+    context: ExecutionContext = {}
+  ): Promise<{ shapedData: any; rawResponse: any; cacheInfo: HttpCacheInfo }> {
     this.log('Executing query field:', {
       fieldName,
       fields,
@@ -548,14 +1256,19 @@ export class RestQL extends Logger {
     const resolvedArgs = this.resolveVariables(args, variables)
 
     try {
-      const result = await this.executor.execute(
+      const { data: result, cacheInfo } = await this.executor.executeConditional(
         { queryName: fieldName, fields, args: resolvedArgs },
         resourceSchema,
         variables,
-        HttpMethod.GET
+        HttpMethod.GET,
+        validators,
+        this.withResourceName(context, fieldName)
       )
+      if (cacheInfo.notModified) {
+        return { shapedData: undefined, rawResponse: undefined, cacheInfo }
+      }
 
-      const dataPath = resourceSchema.dataPath || ''
+      const dataPath = endpoint.dataPath || ''
       const extractedData = this.extractNestedValue(result, dataPath)
 
       const shapedResult = await this.shapeData(
@@ -563,15 +1276,97 @@ export class RestQL extends Logger {
         { fields },
         resourceSchema,
         variables,
-        { [fieldName]: result }
+        { [fieldName]: result },
+        context
       )
-      return { shapedData: shapedResult, rawResponse: result }
+      return { shapedData: shapedResult, rawResponse: result, cacheInfo }
     } catch (error) {
       this.error(`Error executing query for ${fieldName}:`, error)
       throw error
     }
   }
 
+  /**
+   * Loads a nested resource with arguments taken from its parent, added to the arguments of the
+   * nested field. Argument sets collected from all parent items within the batch interval are
+   * deduplicated and each resolved once, so a list of 50 posts by 3 authors costs 3 requests,
+   * or a single one when the nested endpoint declares `@batch`. The requests of a batch are only
+   * aborted once the signals of all operations waiting for it are. Loads are only batched together
+   * for the same resource, operation, arguments, variables and selection, wherever it is written.
+   * @param {string} fieldName - The name of the nested field
+   * @param {ParsedField} field - The parsed nested field
+   * @param {{ [key: string]: any }} parentArgs - The arguments taken from the parent
+   * @param {VariableValues} variables - The variables for the query
+   * @param {SchemaResource} nestedResourceSchema - The schema of the nested resource
+   * @param {ExecutionContext} [context={}] - The nested resource and operation names and the signal aborting the load
+   * @returns {Promise<any>} The shaped nested resource
+   * @private
+   */
+  private loadNestedResource (
+    fieldName: string,
+    field: ParsedField,
+    parentArgs: { [key: string]: any },
+    variables: VariableValues,
+    nestedResourceSchema: SchemaResource,
+    context: ExecutionContext = {}
+  ): Promise<any> {
+    const args = field.args || {}
+    // Positions differ between identical selections written in different places
+    const loaderKey = JSON.stringify(
+      [context.resourceName, context.operationName, this.resolveVariables(args, variables), variables, field.fields],
+      (key, value) => (key === 'pos' ? undefined : value)
+    )
+
+    return this.batchManager.load(loaderKey, parentArgs, async (
+      parentArgSets: Array<{ [key: string]: any }>,
+      batchSignal: AbortSignal
+    ) => {
+      const argSetsById = new Map(parentArgSets.map((argSet) => [JSON.stringify(argSet), argSet]))
+      const results = new Map<string, any>()
+      await Promise.all(
+        Array.from(argSetsById).map(async ([argSetId, argSet]) => {
+          try {
+            const nestedResult = await this.executeQueryField(
+              fieldName,
+              field.fields,
+              { ...args, ...argSet },
+              variables,
+              nestedResourceSchema,
+              {},
+              { ...context, signal: batchSignal }
+            )
+            results.set(argSetId, nestedResult.shapedData)
+          } catch (error) {
+            results.set(argSetId, error instanceof Error ? error : new Error(String(error)))
+          }
+        })
+      )
+      return parentArgSets.map((argSet) => results.get(JSON.stringify(argSet)))
+    }, undefined, context.signal)
+  }
+
+  /**
+   * Resolves the arguments of a `@resolve` directive: `$parent.path` values are read from
+   * the raw parent object and other values are passed as they are.
+   * @param {{ [key: string]: any }} resolveArgs - The arguments of the directive
+   * @param {any} parent - The raw parent object
+   * @returns {{ [key: string]: any }} The resolved arguments
+   * @private
+   */
+  private resolveParentArguments (
+    resolveArgs: { [key: string]: any },
+    parent: any
+  ): { [key: string]: any } {
+    return Object.fromEntries(
+      Object.entries(resolveArgs).map(([argName, value]) => [
+        argName,
+        typeof value === 'string' && value.startsWith('$parent.')
+          ? this.extractNestedValue(parent, value.slice('$parent.'.length))
+          : value
+      ])
+    )
+  }
+
   /**
    * Extracts a nested value from data using a dot-notated path.
    * @param {any} data - The data to extract from
@@ -620,8 +1415,10 @@ export class RestQL extends Logger {
 
   /**
    * Generates a cache key for a query.
+   * The selection set is part of the key since the cached data is shaped by it.
    * @param {string} fieldName - The name of the field
    * @param {any} args - The arguments for the query
+   * @param {{ [key: string]: ParsedField }} fields - The selected fields
    * @param {VariableValues} variables - The variables for the query
    * @returns {string} The generated cache key
    * @private
@@ -629,34 +1426,74 @@ export class RestQL extends Logger {
   private getCacheKey (
     fieldName: string,
     args: any,
+    fields: { [key: string]: ParsedField },
     variables: VariableValues
   ): string {
     const resolvedArgs = this.resolveVariables(args, variables)
-    return `${fieldName}:${JSON.stringify(resolvedArgs)}`
+    return `${fieldName}:${JSON.stringify(
+      resolvedArgs
+    )}:${this.getSelectionSignature(fields)}`
+  }
+
+  /**
+   * Builds the tags a cached query is invalidated by: its resource, its id or `list`
+   * when it has no id argument, and `resource.field` for every selected field.
+   * @param {ParsedQuery} query - The top-level query
+   * @param {VariableValues} variables - The variables for the query
+   * @returns {string[]} The cache tags
+   * @private
+   */
+  private getCacheTags (query: ParsedQuery, variables: VariableValues): string[] {
+    const resourceKey = query.queryName.toLowerCase()
+    const resolvedArgs = this.resolveVariables(query.args, variables)
+    return [
+      resourceKey,
+      resolvedArgs.id !== undefined
+        ? `${resourceKey}:id=${resolvedArgs.id}`
+        : `${resourceKey}:list`,
+      ...Object.values(query.fields).map(
+        (field) => `${resourceKey}.${field.name}`
+      )
+    ]
+  }
+
+  /**
+   * Builds a stable signature of a selection set, ignoring source positions.
+   * @param {{ [key: string]: ParsedField }} fields - The selected fields
+   * @returns {string} The selection signature
+   * @private
+   */
+  private getSelectionSignature (fields: { [key: string]: ParsedField }): string {
+    return Object.entries(fields)
+      .map(([responseKey, field]) => {
+        const nestedSignature = field.fields
+          ? `{${this.getSelectionSignature(field.fields)}}`
+          : ''
+        return `${responseKey}:${field.name}${JSON.stringify(
+          field.args
+        )}${nestedSignature}`
+      })
+      .join(',')
   }
 
   /**
    * Resolves variables in the arguments.
-   * @param {{ [key: string]: string }} args - The arguments containing variable references
+   * @param {{ [key: string]: ArgumentValue }} args - The arguments containing variable references
    * @param {{ [key: string]: any }} variables - The variables to resolve
    * @returns {{ [key: string]: any }} The resolved arguments
    * @private
    */
   private resolveVariables (
-    args: { [key: string]: string },
+    args: { [key: string]: ArgumentValue },
     variables: { [key: string]: any }
   ): { [key: string]: any } {
     const resolved: { [key: string]: any } = {}
     for (const [key, value] of Object.entries(args)) {
-      if (typeof value === 'string' && value.startsWith('$')) {
-        const varName = value.slice(1)
-        if (varName in variables) {
-          resolved[key] = variables[varName]
-        }
-        // If the variable is not provided, we simply skip it
-        // This allows optional variables to be omitted
-      } else {
-        resolved[key] = value
+      const resolvedValue = resolveArgumentValue(value, variables)
+      // If the variable is not provided, we simply skip it
+      // This allows optional variables to be omitted
+      if (resolvedValue !== undefined) {
+        resolved[key] = resolvedValue
       }
     }
     return resolved
@@ -683,15 +1520,35 @@ export class RestQL extends Logger {
       throw error
     }
 
-    this.queryParser = new RestQLParser()
-    this.cacheManager = new CacheManager(this.options.cacheTimeout)
-    this.batchManager = new BatchManager(
-      this.options.batchInterval,
-      this.options.maxBatchSize
+    this.queryParser = new RestQLParser(this.schema)
+    this.variableValidator = new VariableValidator(this.schema)
+    this.queryValidator = new QueryValidator(this.schema)
+    this.cacheManager = new CacheManager(
+      this.options.cacheTimeout,
+      this.options.cacheStore,
+      {
+        maxEntries: this.options.maxCacheEntries,
+        maxBytes: this.options.maxCacheBytes,
+        revalidationWindow: this.options.cacheRevalidationWindow
+      }
     )
+    if (this.options.cacheSweepInterval > 0) {
+      this.cacheManager.startSweep(this.options.cacheSweepInterval)
+    }
+    this.entityStore = new EntityStore(this.schema, this.options.cacheTimeout)
+    this.batchManager = new BatchManager({
+      batchInterval: this.options.batchInterval,
+      maxBatchSize: this.options.maxBatchSize
+    })
     this.executor = new RestQLExecutor({
       baseUrls: this.baseUrls,
-      headers: this.options.headers
+      headers: this.options.headers,
+      maxRetries: this.options.maxRetries,
+      retryDelay: this.options.retryDelay,
+      maxRetryDelay: this.options.maxRetryDelay,
+      maxBatchSize: this.options.maxBatchSize,
+      timeout: this.options.timeout,
+      middleware: this.options.middleware
     })
     this.transformers = transformers
   }
@@ -1,5 +1,5 @@
 import { Logger } from '../utils/Logger'
-import { BatchManagerOptions } from '../types'
+import { BatchManagerOptions, BatchLoad, BatchLoadRequest } from '../types'
 
 /**
  * BatchManager class for managing batched asynchronous operations.
@@ -8,8 +8,9 @@ import { BatchManagerOptions } from '../types'
 export class BatchManager extends Logger {
   private batchIntervalMs: number
   private operationsByKey: { [key: string]: Array<{ operation: () => Promise<any>, reject: (reason?: any) => void }> }
-  private batchTimer: number | null
+  private batchTimer: ReturnType<typeof setTimeout> | null
   private maxOperationsPerBatch: number
+  private loadsByKey: { [key: string]: BatchLoad<any, any> }
 
   /**
    * Creates an instance of BatchManager.
@@ -23,23 +24,91 @@ export class BatchManager extends Logger {
     this.operationsByKey = {}
     this.batchTimer = null
     this.maxOperationsPerBatch = maxBatchSize
+    this.loadsByKey = {}
   }
 
   /**
    * Adds an operation to the batch queue for a specific key.
+   * An operation whose signal is aborted while it is queued is removed from the queue
+   * and rejects with the abort reason; once started, the operation handles its signal itself.
    * @template T
    * @param {string} key - The identifier for the batch group
    * @param {() => Promise<T>} operation - The asynchronous operation to be executed
+   * @param {AbortSignal} [signal] - The signal canceling the operation, followed until the operation settles
    * @returns {Promise<T>} A promise that resolves with the operation's result
    */
-  add<T>(key: string, operation: () => Promise<T>): Promise<T> {
-    this.ensureKeyExists(key)
-
+  add<T>(key: string, operation: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+    let onAbort: (() => void) | undefined
     return new Promise<T>((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(signal.reason)
+        return
+      }
+      this.ensureKeyExists(key)
+
       const wrappedOperation = this.wrapOperation(operation, resolve, reject)
-      this.operationsByKey[key].push({ operation: wrappedOperation, reject })
+      const queuedOperation = { operation: wrappedOperation, reject }
+      this.operationsByKey[key].push(queuedOperation)
+      onAbort = () => this.removeOperation(key, queuedOperation, signal?.reason)
+      signal?.addEventListener('abort', onAbort, { once: true })
 
       this.handleBatchExecution(key)
+    }).finally(() => {
+      if (onAbort) {
+        signal?.removeEventListener('abort', onAbort)
+      }
+    })
+  }
+
+  /**
+   * Adds an item to the batch loaded with a single call for a specific key.
+   * Items added within the batch interval are passed together to the batch function,
+   * which returns one result per item in the same order. An Error result rejects its item only.
+   * An item whose signal is aborted rejects with the abort reason and is left out of its batch
+   * if the batch is still pending; the signal passed to the batch function is aborted once
+   * every item of the batch is.
+   * @template I, T
+   * @param {string} key - The identifier for the batch group
+   * @param {I} item - The item to load
+   * @param {(items: I[], signal: AbortSignal) => Promise<Array<T | Error>>} loadBatch - The function loading a batch of items
+   * @param {number} [maxBatchSize] - The maximum number of items per batch, defaulting to the manager's maximum
+   * @param {AbortSignal} [signal] - The signal canceling the load of the item, followed until the item settles
+   * @returns {Promise<T>} A promise that resolves with the result for the item
+   */
+  load<I, T>(
+    key: string,
+    item: I,
+    loadBatch: (items: I[], signal: AbortSignal) => Promise<Array<T | Error>>,
+    maxBatchSize: number = this.maxOperationsPerBatch,
+    signal?: AbortSignal
+  ): Promise<T> {
+    let onAbort: (() => void) | undefined
+    return new Promise<T>((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(signal.reason)
+        return
+      }
+      if (!this.loadsByKey[key]) {
+        this.loadsByKey[key] = {
+          loadBatch,
+          requests: [],
+          timer: setTimeout(() => this.dispatchLoad(key), this.batchIntervalMs),
+          controller: new AbortController()
+        }
+      }
+
+      const batchLoad = this.loadsByKey[key]
+      const request = { item, resolve, reject, signal }
+      batchLoad.requests.push(request)
+      onAbort = () => this.abortLoad(key, batchLoad, request)
+      signal?.addEventListener('abort', onAbort, { once: true })
+      if (batchLoad.requests.length >= maxBatchSize) {
+        this.dispatchLoad(key)
+      }
+    }).finally(() => {
+      if (onAbort) {
+        signal?.removeEventListener('abort', onAbort)
+      }
     })
   }
 
@@ -64,23 +133,83 @@ export class BatchManager extends Logger {
   }
 
   /**
-   * Cancels all pending operations for the specified key.
+   * Cancels all pending operations and loads for the specified key.
    * @param {string} key - The identifier for the batch group to cancel
    */
   cancel (key: string): void {
     const operations = this.operationsByKey[key] || [];
+    const batchLoad = this.loadsByKey[key]
 
     delete this.operationsByKey[key]
+    delete this.loadsByKey[key]
 
     operations.forEach(({ reject }) => {
       reject(new Error('Operation canceled'))
     })
+    if (batchLoad) {
+      clearTimeout(batchLoad.timer)
+      batchLoad.requests.forEach(({ reject }) => {
+        reject(new Error('Operation canceled'))
+      })
+    }
 
     if (this.isQueueEmpty() && this.batchTimer) {
       this.clearBatchTimer()
     }
   }
 
+  /**
+   * Removes a queued operation and rejects it. Operations that already started are left alone.
+   * @param {string} key - The key of the batch holding the operation
+   * @param {{ operation: () => Promise<any>, reject: (reason?: any) => void }} queuedOperation - The queued operation
+   * @param {any} reason - The rejection reason
+   * @private
+   */
+  private removeOperation (
+    key: string,
+    queuedOperation: { operation: () => Promise<any>, reject: (reason?: any) => void },
+    reason: any
+  ): void {
+    const operations = this.operationsByKey[key] || []
+    const index = operations.indexOf(queuedOperation)
+    if (index === -1) {
+      return
+    }
+    operations.splice(index, 1)
+    if (operations.length === 0) {
+      delete this.operationsByKey[key]
+    }
+    queuedOperation.reject(reason)
+
+    if (this.isQueueEmpty()) {
+      this.clearBatchTimer()
+    }
+  }
+
+  /**
+   * Rejects an item whose signal was aborted. A pending item is removed from its batch, and the
+   * batch is canceled if it was the last one; once dispatched, the signal of the batch is aborted
+   * when every item of the batch is.
+   * @param {string} key - The key of the batch holding the item
+   * @param {BatchLoad<any, any>} batchLoad - The batch holding the item
+   * @param {BatchLoadRequest<any, any>} request - The aborted item
+   * @private
+   */
+  private abortLoad (key: string, batchLoad: BatchLoad<any, any>, request: BatchLoadRequest<any, any>): void {
+    const reason = request.signal?.reason
+    request.reject(reason)
+
+    if (this.loadsByKey[key] === batchLoad) {
+      batchLoad.requests.splice(batchLoad.requests.indexOf(request), 1)
+      if (batchLoad.requests.length === 0) {
+        clearTimeout(batchLoad.timer)
+        delete this.loadsByKey[key]
+      }
+    } else if (batchLoad.requests.every(({ signal }) => signal?.aborted)) {
+      batchLoad.controller.abort(reason)
+    }
+  }
+
   /**
    * Ensures that a key exists in the operationsByKey object.
    * @param {string} key - The key to check and initialize if necessary
@@ -178,6 +307,46 @@ export class BatchManager extends Logger {
     }
   }
 
+  /**
+   * Loads the pending batch of items for a given key and settles the promise of each item.
+   * @param {string} key - The key of the batch to load
+   * @returns {Promise<void>}
+   * @private
+   */
+  private async dispatchLoad (key: string): Promise<void> {
+    const batchLoad = this.loadsByKey[key]
+    if (!batchLoad) {
+      return
+    }
+    delete this.loadsByKey[key]
+    clearTimeout(batchLoad.timer)
+
+    const { requests } = batchLoad
+    this.log(`Loading batch of ${requests.length} items for key ${key}`)
+    try {
+      const results = await batchLoad.loadBatch(
+        requests.map(({ item }) => item),
+        batchLoad.controller.signal
+      )
+      if (results.length !== requests.length) {
+        throw new Error(
+          `Batch function for key ${key} returned ${results.length} results for ${requests.length} items`
+        )
+      }
+      requests.forEach(({ resolve, reject }, index) => {
+        const result = results[index]
+        if (result instanceof Error) {
+          reject(result)
+        } else {
+          resolve(result)
+        }
+      })
+    } catch (error) {
+      this.error(`Batch load error for key ${key}:`, error)
+      requests.forEach(({ reject }) => reject(error))
+    }
+  }
+
   /**
    * Schedules the next batch execution if there are pending operations.
    * @private
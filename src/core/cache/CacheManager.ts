@@ -1,77 +1,180 @@
 import { Logger } from '../utils/Logger'
-import { CacheItem } from '../types'
+import { MemoryCacheStore } from './MemoryCacheStore'
+import {
+  CacheItem,
+  CacheStore,
+  CacheLimits,
+  CacheStats,
+  CacheSetOptions,
+  HttpCacheValidators
+} from '../types'
 
 /**
- * CacheManager class for managing in-memory cache with expiration.
+ * CacheManager class for managing a cache with expiration on top of a pluggable store.
+ * The number of items and their approximate size can be bounded, in which case the
+ * least recently used items are evicted first. Items may be kept past their expiry
+ * for stale-while-revalidate reads, and items with HTTP validators are kept for a
+ * revalidation window after that so they can be revalidated with a conditional request.
  * @extends Logger
  */
 export class CacheManager extends Logger {
-  private cacheStorage: Map<string, CacheItem<any>>
+  private cacheStore: CacheStore
   private defaultTimeToLive: number
+  private maxEntries: number
+  private maxBytes: number
+  private revalidationWindow: number
+  // Approximate sizes of the items written by this manager, from least to most recently used
+  private itemSizes: Map<string, number>
+  private totalBytes: number
+  private stats: Omit<CacheStats, 'entries' | 'bytes'>
+  private sweepTimer: ReturnType<typeof setInterval> | null
 
   /**
    * Creates an instance of CacheManager.
    * @param {number} defaultTimeToLive - The default time-to-live for cache items in milliseconds
+   * @param {CacheStore} [cacheStore=new MemoryCacheStore()] - The store holding the cache items
+   * @param {CacheLimits} [limits={}] - The maximum number of items and approximate bytes to keep, and how long
+   * items with HTTP validators are kept for revalidation once they can no longer be served, defaulting to the time-to-live
    */
-  constructor (defaultTimeToLive: number) {
+  constructor (
+    defaultTimeToLive: number,
+    cacheStore: CacheStore = new MemoryCacheStore(),
+    limits: CacheLimits = {}
+  ) {
     super('CacheManager')
-    this.cacheStorage = new Map()
+    this.cacheStore = cacheStore
     this.defaultTimeToLive = defaultTimeToLive
+    this.maxEntries = limits.maxEntries ?? Infinity
+    this.maxBytes = limits.maxBytes ?? Infinity
+    this.revalidationWindow = limits.revalidationWindow ?? defaultTimeToLive
+    this.itemSizes = new Map()
+    this.totalBytes = 0
+    this.stats = { hits: 0, misses: 0, evictions: 0, expirations: 0 }
+    this.sweepTimer = null
   }
 
   /**
-   * Stores a value in the cache with a specified or default time-to-live.
+   * Stores a value in the cache with a specified or default time-to-live,
+   * evicting the least recently used items if the cache exceeds its limits.
    * @template T
    * @param {string} key - The unique identifier for the cache item
    * @param {T} value - The data to be stored
    * @param {number} [timeToLive=this.defaultTimeToLive] - The time-to-live in milliseconds
+   * @param {string[]} [tags=[]] - Tags used to invalidate related items together
+   * @param {CacheSetOptions} [options={}] - How long the item may still be read as stale after it expires, and the HTTP validators of its response
    */
-  set<T> (
+  async set<T> (
     key: string,
     value: T,
-    timeToLive: number = this.defaultTimeToLive
-  ): void {
+    timeToLive: number = this.defaultTimeToLive,
+    tags: string[] = [],
+    { staleWhileRevalidate = 0, validators }: CacheSetOptions = {}
+  ): Promise<void> {
     const expirationTime = Date.now() + timeToLive
-    this.cacheStorage.set(key, { data: value, expiry: expirationTime })
+    const item: CacheItem<T> = { data: value, expiry: expirationTime, tags }
+    if (staleWhileRevalidate > 0) {
+      item.staleExpiry = expirationTime + staleWhileRevalidate
+    }
+    if (validators?.etag || validators?.lastModified) {
+      item.validators = validators
+      item.revalidationExpiry = (item.staleExpiry ?? expirationTime) + this.revalidationWindow
+    }
+    const evictedKeys = await this.cacheStore.set(key, item)
+    this.trackItem(key, this.estimateSize(key, item))
     this.log(`Cached item: ${key}`)
+    // Items the store evicted on its own no longer count towards the limits
+    for (const evictedKey of evictedKeys ?? []) {
+      this.untrackItem(evictedKey)
+      this.stats.evictions++
+    }
+    await this.evictLeastRecentlyUsedItems()
   }
 
   /**
    * Retrieves a value from the cache if it exists and hasn't expired.
    * @template T
    * @param {string} key - The unique identifier for the cache item
-   * @returns {T | null} The cached value or null if not found or expired
+   * @returns {Promise<T | null>} The cached value or null if not found, expired or stale
    */
-  get<T> (key: string): T | null {
-    const cachedItem = this.cacheStorage.get(key)
+  async get<T> (key: string): Promise<T | null> {
+    const cachedEntry = await this.getEntry<T>(key)
+    return cachedEntry && !cachedEntry.isStale ? cachedEntry.data : null
+  }
+
+  /**
+   * Retrieves a value from the cache along with whether it has expired but may still
+   * be served while it is revalidated.
+   * @template T
+   * @param {string} key - The unique identifier for the cache item
+   * @returns {Promise<{ data: T; isStale: boolean } | null>} The cached value or null if not found or past its stale period
+   */
+  async getEntry<T> (key: string): Promise<{ data: T; isStale: boolean } | null> {
+    const cachedItem = await this.cacheStore.get<T>(key)
     if (!cachedItem) {
+      this.stats.misses++
       this.log(`Cache miss: ${key}`)
       return null
     }
 
     if (this.isExpired(cachedItem)) {
-      this.removeCacheItem(key)
+      this.stats.misses++
+      await this.removeCacheItem(key)
+      return null
+    }
+
+    if (!this.isServable(cachedItem)) {
+      this.stats.misses++
+      this.log(`Cache miss (awaiting revalidation): ${key}`)
       return null
     }
 
-    this.log(`Cache hit: ${key}`)
-    return cachedItem.data as T
+    this.stats.hits++
+    this.touchItem(key)
+    const isStale = this.isStale(cachedItem)
+    this.log(`Cache hit${isStale ? ' (stale)' : ''}: ${key}`)
+    return { data: cachedItem.data, isStale }
+  }
+
+  /**
+   * Retrieves an item that can be revalidated with a conditional request, whether or not
+   * it can still be served.
+   * @template T
+   * @param {string} key - The unique identifier for the cache item
+   * @returns {Promise<{ data: T; validators: HttpCacheValidators } | null>} The cached value and its validators or null if the item has no validators or is past its revalidation window
+   */
+  async getRevalidationEntry<T> (
+    key: string
+  ): Promise<{ data: T; validators: HttpCacheValidators } | null> {
+    const cachedItem = await this.cacheStore.get<T>(key)
+    if (!cachedItem?.validators) {
+      return null
+    }
+    if (this.isExpired(cachedItem)) {
+      await this.removeCacheItem(key)
+      return null
+    }
+    return { data: cachedItem.data, validators: cachedItem.validators }
   }
 
   /**
    * Checks if a valid cache item exists for the given key.
    * @param {string} key - The unique identifier for the cache item
-   * @returns {boolean} True if a valid cache item exists, false otherwise
+   * @returns {Promise<boolean>} True if a valid cache item exists, false otherwise
    */
-  has (key: string): boolean {
-    const cachedItem = this.cacheStorage.get(key)
+  async has (key: string): Promise<boolean> {
+    const cachedItem = await this.cacheStore.get(key)
     if (!cachedItem) {
       this.log(`Cache check (not found): ${key}`)
       return false
     }
 
     if (this.isExpired(cachedItem)) {
-      this.removeCacheItem(key)
+      await this.removeCacheItem(key)
+      return false
+    }
+
+    if (this.isStale(cachedItem)) {
+      this.log(`Cache check (stale): ${key}`)
       return false
     }
 
@@ -83,51 +186,113 @@ export class CacheManager extends Logger {
    * Removes a specific item from the cache.
    * @param {string} key - The unique identifier for the cache item to remove
    */
-  invalidate (key: string): void {
-    this.cacheStorage.delete(key)
+  async invalidate (key: string): Promise<void> {
+    await this.deleteItem(key)
     this.log(`Invalidated cache item: ${key}`)
   }
 
+  /**
+   * Removes all items tagged with any of the given tags.
+   * @param {string[]} tags - The tags of the items to remove
+   * @returns {Promise<number>} The number of removed items
+   */
+  async invalidateTags (tags: string[]): Promise<number> {
+    let invalidatedItemCount = 0
+    for (const key of await this.cacheStore.keys()) {
+      const item = await this.cacheStore.get(key)
+      if (item?.tags?.some((tag) => tags.includes(tag))) {
+        await this.deleteItem(key)
+        invalidatedItemCount++
+      }
+    }
+    this.log(`Invalidated ${invalidatedItemCount} cache items tagged ${tags.join(', ')}`)
+    return invalidatedItemCount
+  }
+
   /**
    * Removes all items from the cache.
    */
-  clear (): void {
-    this.cacheStorage.clear()
+  async clear (): Promise<void> {
+    for (const key of await this.cacheStore.keys()) {
+      await this.deleteItem(key)
+    }
     this.log('Cache cleared')
   }
 
   /**
    * Returns the number of valid items in the cache.
-   * @returns {number} The number of non-expired items in the cache
+   * @returns {Promise<number>} The number of non-expired items in the cache
    */
-  size (): number {
-    this.removeExpiredItems()
-    const cacheSize = this.cacheStorage.size
+  async size (): Promise<number> {
+    const cacheSize = (await this.keys()).length
     this.log(`Cache size: ${cacheSize}`)
     return cacheSize
   }
 
   /**
    * Returns an array of keys for all valid items in the cache.
-   * @returns {string[]} An array of cache keys
+   * @returns {Promise<string[]>} An array of cache keys
    */
-  keys (): string[] {
-    this.removeExpiredItems()
-    const cacheKeys = Array.from(this.cacheStorage.keys())
+  async keys (): Promise<string[]> {
+    await this.removeExpiredItems()
+    const cacheKeys = await this.cacheStore.keys()
     this.log(`Cache keys: ${cacheKeys.join(', ')}`)
     return cacheKeys
   }
 
+  /**
+   * Returns the counters of the cache along with the number and approximate size
+   * of the items written by this manager.
+   * @returns {CacheStats} The cache statistics
+   */
+  getStats (): CacheStats {
+    return {
+      entries: this.itemSizes.size,
+      bytes: this.totalBytes,
+      ...this.stats
+    }
+  }
+
+  /**
+   * Starts removing expired items periodically, restarting the sweep if one is running.
+   * The sweep does not keep a Node.js process alive on its own.
+   * @param {number} interval - The interval between sweeps in milliseconds
+   */
+  startSweep (interval: number): void {
+    this.stopSweep()
+    const sweepTimer = setInterval(() => {
+      this.removeExpiredItems().catch((error) => {
+        this.error('Error sweeping expired cache items:', error)
+      })
+    }, interval)
+    // Timers only have unref in Node.js
+    ;(sweepTimer as { unref?: () => void }).unref?.()
+    this.sweepTimer = sweepTimer
+    this.log(`Started sweeping expired cache items every ${interval}ms`)
+  }
+
+  /**
+   * Stops the periodic sweep of expired items.
+   */
+  stopSweep (): void {
+    if (this.sweepTimer) {
+      clearInterval(this.sweepTimer)
+      this.sweepTimer = null
+      this.log('Stopped sweeping expired cache items')
+    }
+  }
+
   /**
    * Removes all expired items from the cache.
    * @private
    */
-  private removeExpiredItems (): void {
-    const currentTime = Date.now()
+  private async removeExpiredItems (): Promise<void> {
     let expiredItemCount = 0
-    for (const [key, item] of this.cacheStorage.entries()) {
-      if (currentTime > item.expiry) {
-        this.cacheStorage.delete(key)
+    for (const key of await this.cacheStore.keys()) {
+      const item = await this.cacheStore.get(key)
+      if (item && this.isExpired(item)) {
+        await this.deleteItem(key)
+        this.stats.expirations++
         expiredItemCount++
       }
     }
@@ -137,12 +302,110 @@ export class CacheManager extends Logger {
   }
 
   /**
-   * Checks if a cache item has expired.
+   * Evicts the least recently used items until the cache is within its limits.
+   * @private
+   */
+  private async evictLeastRecentlyUsedItems (): Promise<void> {
+    while (
+      this.itemSizes.size > this.maxEntries ||
+      this.totalBytes > this.maxBytes
+    ) {
+      const leastRecentlyUsedKey = this.itemSizes.keys().next().value as string
+      await this.deleteItem(leastRecentlyUsedKey)
+      this.stats.evictions++
+      this.log(`Evicted cache item: ${leastRecentlyUsedKey}`)
+    }
+  }
+
+  /**
+   * Records the size of an item and marks it as the most recently used.
+   * @param {string} key - The unique identifier for the cache item
+   * @param {number} itemSize - The approximate size of the item in bytes
+   * @private
+   */
+  private trackItem (key: string, itemSize: number): void {
+    this.untrackItem(key)
+    this.itemSizes.set(key, itemSize)
+    this.totalBytes += itemSize
+  }
+
+  /**
+   * Marks a tracked item as the most recently used.
+   * @param {string} key - The unique identifier for the cache item
+   * @private
+   */
+  private touchItem (key: string): void {
+    const itemSize = this.itemSizes.get(key)
+    if (itemSize !== undefined) {
+      this.itemSizes.delete(key)
+      this.itemSizes.set(key, itemSize)
+    }
+  }
+
+  /**
+   * Forgets the size of an item.
+   * @param {string} key - The unique identifier for the cache item
+   * @private
+   */
+  private untrackItem (key: string): void {
+    this.totalBytes -= this.itemSizes.get(key) ?? 0
+    this.itemSizes.delete(key)
+  }
+
+  /**
+   * Estimates the size of an item from the length of its JSON representation,
+   * counting two bytes per character as strings are stored in UTF-16.
+   * @param {string} key - The unique identifier for the cache item
+   * @param {CacheItem<any>} item - The cache item
+   * @returns {number} The approximate size of the item in bytes
+   * @private
+   */
+  private estimateSize (key: string, item: CacheItem<any>): number {
+    try {
+      return (key.length + (JSON.stringify(item)?.length ?? 0)) * 2
+    } catch (error) {
+      this.warn(`Could not estimate the size of cache item ${key}:`, error)
+      return key.length * 2
+    }
+  }
+
+  /**
+   * Removes an item from the store and forgets its size.
+   * @param {string} key - The unique identifier for the cache item
+   * @private
+   */
+  private async deleteItem (key: string): Promise<void> {
+    await this.cacheStore.delete(key)
+    this.untrackItem(key)
+  }
+
+  /**
+   * Checks if a cache item has expired and can neither be served nor revalidated.
    * @param {CacheItem<any>} item - The cache item to check
    * @returns {boolean} True if the item has expired, false otherwise
    * @private
    */
   private isExpired (item: CacheItem<any>): boolean {
+    return Date.now() > (item.revalidationExpiry ?? item.staleExpiry ?? item.expiry)
+  }
+
+  /**
+   * Checks if a cache item can be served, fresh or stale.
+   * @param {CacheItem<any>} item - The cache item to check
+   * @returns {boolean} True if the item can be served, false otherwise
+   * @private
+   */
+  private isServable (item: CacheItem<any>): boolean {
+    return Date.now() <= (item.staleExpiry ?? item.expiry)
+  }
+
+  /**
+   * Checks if a cache item is past its time-to-live.
+   * @param {CacheItem<any>} item - The cache item to check
+   * @returns {boolean} True if the item is stale, false otherwise
+   * @private
+   */
+  private isStale (item: CacheItem<any>): boolean {
     return Date.now() > item.expiry
   }
 
@@ -151,8 +414,9 @@ export class CacheManager extends Logger {
    * @param {string} key - The unique identifier for the cache item to remove
    * @private
    */
-  private removeCacheItem (key: string): void {
-    this.cacheStorage.delete(key)
+  private async removeCacheItem (key: string): Promise<void> {
+    await this.deleteItem(key)
+    this.stats.expirations++
     this.log(`Expired cache item removed: ${key}`)
   }
 }
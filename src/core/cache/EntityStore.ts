@@ -0,0 +1,262 @@
+import { Logger } from '../utils/Logger'
+import { getCanonicalTypeName } from '../utils/schema'
+import { resolveArgumentValue } from '../utils/arguments'
+import { Schema, ParsedField, EntityReference, VariableValues } from '../types'
+
+/**
+ * EntityStore class for caching shaped data normalized into entities.
+ * Objects of types declaring a key with `@key` are stored once per type and key,
+ * so every query selecting the same entity reads and updates a single record.
+ * @extends Logger
+ */
+export class EntityStore extends Logger {
+  private schema: Schema
+  private entities: Map<string, { fields: { [key: string]: any }; expiry: number }>
+  private defaultTimeToLive: number
+
+  /**
+   * Creates an instance of EntityStore.
+   * @param {Schema} schema - The schema declaring the keys of the types
+   * @param {number} defaultTimeToLive - The time-to-live of entities in milliseconds
+   */
+  constructor (schema: Schema, defaultTimeToLive: number) {
+    super('EntityStore')
+    this.schema = schema
+    this.entities = new Map()
+    this.defaultTimeToLive = defaultTimeToLive
+  }
+
+  /**
+   * Normalizes shaped data, merging every keyed object into its entity.
+   * Fields are stored by name and arguments, so aliases do not split entities.
+   * @param {any} data - The shaped data keyed by response key
+   * @param {{ [key: string]: ParsedField }} fields - The fields the data was shaped for
+   * @param {string} typeName - The name of the type of the data
+   * @param {VariableValues} variables - The variables the field arguments were resolved with
+   * @returns {any} The normalized data, with keyed objects replaced by entity references
+   */
+  write (
+    data: any,
+    fields: { [key: string]: ParsedField },
+    typeName: string,
+    variables: VariableValues
+  ): any {
+    if (Array.isArray(data)) {
+      return data.map((item) => this.write(item, fields, typeName, variables))
+    }
+    if (typeof data !== 'object' || data === null) {
+      return data
+    }
+
+    const canonicalTypeName = getCanonicalTypeName(this.schema, typeName)
+    const record: { [key: string]: any } = {}
+    for (const [responseKey, field] of Object.entries(fields)) {
+      if (!(responseKey in data)) {
+        continue
+      }
+      const fieldTypeName = this.getFieldTypeName(canonicalTypeName, field.name)
+      record[this.getStorageKey(field, variables)] =
+        field.fields && fieldTypeName
+          ? this.write(data[responseKey], field.fields, fieldTypeName, variables)
+          : data[responseKey]
+    }
+
+    const entityId = this.getEntityId(canonicalTypeName, record)
+    if (!entityId) {
+      return record
+    }
+
+    const existingEntity = this.entities.get(entityId)
+    this.entities.set(entityId, {
+      fields: { ...(existingEntity?.fields ?? {}), ...record },
+      expiry: Date.now() + this.defaultTimeToLive
+    })
+    this.log(`Wrote entity: ${entityId}`)
+    return { __ref: entityId }
+  }
+
+  /**
+   * Reads the requested fields from normalized data.
+   * @param {any} data - The normalized data, possibly an entity reference
+   * @param {{ [key: string]: ParsedField }} fields - The requested fields
+   * @param {VariableValues} variables - The variables to resolve field arguments with
+   * @returns {{ data: any } | null} The shaped data keyed by response key, or null if any requested field is missing
+   */
+  read (
+    data: any,
+    fields: { [key: string]: ParsedField },
+    variables: VariableValues
+  ): { data: any } | null {
+    if (Array.isArray(data)) {
+      const items = []
+      for (const item of data) {
+        const readItem = this.read(item, fields, variables)
+        if (!readItem) {
+          return null
+        }
+        items.push(readItem.data)
+      }
+      return { data: items }
+    }
+    if (typeof data !== 'object' || data === null) {
+      return { data }
+    }
+
+    const record = this.isEntityReference(data) ? this.getEntity(data.__ref) : data
+    if (!record) {
+      return null
+    }
+
+    const result: { [key: string]: any } = {}
+    for (const [responseKey, field] of Object.entries(fields)) {
+      const storageKey = this.getStorageKey(field, variables)
+      if (!(storageKey in record)) {
+        this.log(`Missing field ${storageKey}`)
+        return null
+      }
+      if (field.fields) {
+        const nestedResult = this.read(record[storageKey], field.fields, variables)
+        if (!nestedResult) {
+          return null
+        }
+        result[responseKey] = nestedResult.data
+      } else {
+        result[responseKey] = record[storageKey]
+      }
+    }
+    return { data: result }
+  }
+
+  /**
+   * Builds a reference to the entity selected by a top-level query whose only argument is the key of the type,
+   * so `user(id: 1)` can be answered from an entity fetched by any other query.
+   * @param {string} typeName - The name of the queried type
+   * @param {{ [key: string]: any }} resolvedArgs - The resolved arguments of the query
+   * @returns {EntityReference | null} The entity reference or null if the arguments do not select a single entity
+   */
+  getEntityReference (
+    typeName: string,
+    resolvedArgs: { [key: string]: any }
+  ): EntityReference | null {
+    const argNames = Object.keys(resolvedArgs)
+    const canonicalTypeName = getCanonicalTypeName(this.schema, typeName)
+    const keyField = canonicalTypeName ? this.getKeyField(canonicalTypeName) : undefined
+    if (!keyField || argNames.length !== 1 || argNames[0] !== keyField) {
+      return null
+    }
+    return { __ref: `${canonicalTypeName}:${resolvedArgs[keyField]}` }
+  }
+
+  /**
+   * Removes the entity of the given type whose key is among the given values,
+   * so a query selecting it by its key is no longer answered from the store.
+   * @param {string} typeName - The name of the type of the entity
+   * @param {{ [key: string]: any }} values - The values holding the key, such as mutation arguments or a returned object
+   * @returns {boolean} True if an entity was removed
+   */
+  evict (typeName: string, values: { [key: string]: any }): boolean {
+    const entityId = this.getEntityId(getCanonicalTypeName(this.schema, typeName), values)
+    if (!entityId || !this.entities.delete(entityId)) {
+      return false
+    }
+    this.log(`Evicted entity: ${entityId}`)
+    return true
+  }
+
+  /**
+   * Removes all entities.
+   */
+  clear (): void {
+    this.entities.clear()
+    this.log('Entity store cleared')
+  }
+
+  /**
+   * Retrieves the fields of an entity if it exists and hasn't expired.
+   * @param {string} entityId - The id of the entity
+   * @returns {{ [key: string]: any } | null} The fields of the entity or null if not found or expired
+   * @private
+   */
+  private getEntity (entityId: string): { [key: string]: any } | null {
+    const entity = this.entities.get(entityId)
+    if (!entity) {
+      return null
+    }
+    if (Date.now() > entity.expiry) {
+      this.entities.delete(entityId)
+      this.log(`Expired entity removed: ${entityId}`)
+      return null
+    }
+    return entity.fields
+  }
+
+  /**
+   * Builds the id of the entity a record belongs to from its type and key.
+   * @param {string | undefined} canonicalTypeName - The canonical name of the type of the record
+   * @param {{ [key: string]: any }} record - The normalized record
+   * @returns {string | null} The entity id or null if the type has no key or the key is not selected
+   * @private
+   */
+  private getEntityId (
+    canonicalTypeName: string | undefined,
+    record: { [key: string]: any }
+  ): string | null {
+    const keyField = canonicalTypeName ? this.getKeyField(canonicalTypeName) : undefined
+    if (!keyField || record[keyField] === null || record[keyField] === undefined) {
+      return null
+    }
+    return `${canonicalTypeName}:${record[keyField]}`
+  }
+
+  /**
+   * Retrieves the key field declared with `@key` for a type.
+   * @param {string} canonicalTypeName - The canonical name of the type
+   * @returns {string | undefined} The key field or undefined if the type has no key
+   * @private
+   */
+  private getKeyField (canonicalTypeName: string): string | undefined {
+    return (this.schema._types[canonicalTypeName] ?? this.schema[canonicalTypeName])?.key
+  }
+
+  /**
+   * Resolves the type name of a field of the given type.
+   * @param {string | undefined} canonicalTypeName - The canonical name of the parent type
+   * @param {string} fieldName - The name of the field
+   * @returns {string | undefined} The type name of the field or undefined if it cannot be resolved
+   * @private
+   */
+  private getFieldTypeName (
+    canonicalTypeName: string | undefined,
+    fieldName: string
+  ): string | undefined {
+    if (!canonicalTypeName) {
+      return undefined
+    }
+    const parentSchema =
+      this.schema._types[canonicalTypeName] ?? this.schema[canonicalTypeName]
+    return parentSchema?.fields[fieldName]?.type
+  }
+
+  /**
+   * Builds the key a field is stored under: its name, followed by its resolved arguments if it has any.
+   * @param {ParsedField} field - The field
+   * @param {VariableValues} variables - The variables to resolve the arguments with
+   * @returns {string} The storage key
+   * @private
+   */
+  private getStorageKey (field: ParsedField, variables: VariableValues): string {
+    return Object.keys(field.args).length > 0
+      ? `${field.name}(${JSON.stringify(resolveArgumentValue(field.args, variables))})`
+      : field.name
+  }
+
+  /**
+   * Checks whether a normalized value is a reference to an entity.
+   * @param {any} value - The normalized value
+   * @returns {boolean} True if the value is an entity reference, false otherwise
+   * @private
+   */
+  private isEntityReference (value: any): value is EntityReference {
+    return typeof value.__ref === 'string'
+  }
+}
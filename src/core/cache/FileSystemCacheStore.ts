@@ -0,0 +1,120 @@
+import { promises as fs } from 'fs'
+import path from 'path'
+import { createHash } from 'crypto'
+import { Logger } from '../utils/Logger'
+import { CacheItem, CacheStore } from '../types'
+
+/**
+ * FileSystemCacheStore class for storing cache items as JSON files in a directory,
+ * so the cache survives restarts and can be shared by processes on the same machine.
+ * Cached data must be serializable to JSON.
+ * @extends Logger
+ * @implements {CacheStore}
+ */
+export class FileSystemCacheStore extends Logger implements CacheStore {
+  private directory: string
+
+  /**
+   * Creates an instance of FileSystemCacheStore.
+   * @param {string} directory - The directory to store the cache files in, created if missing
+   */
+  constructor (directory: string) {
+    super('FileSystemCacheStore')
+    this.directory = directory
+  }
+
+  /**
+   * Retrieves a cache item from its file.
+   * @template T
+   * @param {string} key - The unique identifier for the cache item
+   * @returns {Promise<CacheItem<T> | undefined>} The cache item or undefined if not found
+   */
+  async get<T> (key: string): Promise<CacheItem<T> | undefined> {
+    const entry = await this.readEntry(this.getFilePath(key))
+    // File names are hashes, so the stored key guards against collisions
+    return entry?.key === key ? entry.item : undefined
+  }
+
+  /**
+   * Writes a cache item to its file. The file is written under a temporary name and
+   * renamed so concurrent readers never see a partial file.
+   * @template T
+   * @param {string} key - The unique identifier for the cache item
+   * @param {CacheItem<T>} item - The cache item to store
+   */
+  async set<T> (key: string, item: CacheItem<T>): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true })
+    const filePath = this.getFilePath(key)
+    const temporaryFilePath = `${filePath}.${Math.random().toString(36).slice(2)}.tmp`
+    await fs.writeFile(temporaryFilePath, JSON.stringify({ key, item }), 'utf8')
+    await fs.rename(temporaryFilePath, filePath)
+    this.log(`Wrote cache file: ${filePath}`)
+  }
+
+  /**
+   * Removes the file of a cache item.
+   * @param {string} key - The unique identifier for the cache item
+   */
+  async delete (key: string): Promise<void> {
+    try {
+      await fs.unlink(this.getFilePath(key))
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') {
+        throw error
+      }
+    }
+  }
+
+  /**
+   * Returns the keys of all stored cache items.
+   * @returns {Promise<string[]>} The cache keys
+   */
+  async keys (): Promise<string[]> {
+    let fileNames: string[]
+    try {
+      fileNames = await fs.readdir(this.directory)
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        return []
+      }
+      throw error
+    }
+
+    const entries = await Promise.all(
+      fileNames
+        .filter((fileName) => fileName.endsWith('.json'))
+        .map((fileName) => this.readEntry(path.join(this.directory, fileName)))
+    )
+    return entries.flatMap((entry) => (entry ? [entry.key] : []))
+  }
+
+  /**
+   * Reads and parses a cache file.
+   * @param {string} filePath - The path of the cache file
+   * @returns {Promise<{ key: string; item: CacheItem<any> } | undefined>} The stored entry or undefined if the file is missing or unreadable
+   * @private
+   */
+  private async readEntry (
+    filePath: string
+  ): Promise<{ key: string; item: CacheItem<any> } | undefined> {
+    try {
+      return JSON.parse(await fs.readFile(filePath, 'utf8'))
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') {
+        this.warn(`Ignoring unreadable cache file ${filePath}:`, error)
+      }
+      return undefined
+    }
+  }
+
+  /**
+   * Builds the path of the file storing a cache item.
+   * @param {string} key - The unique identifier for the cache item
+   * @returns {string} The file path
+   * @private
+   */
+  private getFilePath (key: string): string {
+    const fileName = createHash('sha256').update(key).digest('hex')
+    return path.join(this.directory, `${fileName}.json`)
+  }
+}
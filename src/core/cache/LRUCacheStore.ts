@@ -0,0 +1,80 @@
+import { Logger } from '../utils/Logger'
+import { CacheItem, CacheStore } from '../types'
+
+/**
+ * LRUCacheStore class for storing a bounded number of cache items in memory.
+ * When the store is full, the least recently used item is evicted.
+ * @extends Logger
+ * @implements {CacheStore}
+ */
+export class LRUCacheStore extends Logger implements CacheStore {
+  private items: Map<string, CacheItem<any>>
+  private maxEntries: number
+
+  /**
+   * Creates an instance of LRUCacheStore.
+   * @param {number} maxEntries - The maximum number of items to keep
+   * @throws {Error} If the maximum number of items is not a positive integer
+   */
+  constructor (maxEntries: number) {
+    super('LRUCacheStore')
+    if (!Number.isInteger(maxEntries) || maxEntries < 1) {
+      throw new Error(`maxEntries must be a positive integer, got ${maxEntries}`)
+    }
+    // Maps iterate in insertion order, so the first key is the least recently used
+    this.items = new Map()
+    this.maxEntries = maxEntries
+  }
+
+  /**
+   * Retrieves a cache item and marks it as the most recently used.
+   * @template T
+   * @param {string} key - The unique identifier for the cache item
+   * @returns {Promise<CacheItem<T> | undefined>} The cache item or undefined if not found
+   */
+  async get<T> (key: string): Promise<CacheItem<T> | undefined> {
+    const item = this.items.get(key)
+    if (item) {
+      this.items.delete(key)
+      this.items.set(key, item)
+    }
+    return item
+  }
+
+  /**
+   * Stores a cache item, evicting the least recently used items if the store is full.
+   * @template T
+   * @param {string} key - The unique identifier for the cache item
+   * @param {CacheItem<T>} item - The cache item to store
+   * @returns {Promise<string[]>} The keys of the evicted items
+   */
+  async set<T> (key: string, item: CacheItem<T>): Promise<string[]> {
+    this.items.delete(key)
+    this.items.set(key, item)
+
+    const evictedKeys: string[] = []
+    while (this.items.size > this.maxEntries) {
+      const leastRecentlyUsedKey = this.items.keys().next().value as string
+      this.items.delete(leastRecentlyUsedKey)
+      evictedKeys.push(leastRecentlyUsedKey)
+      this.log(`Evicted cache item: ${leastRecentlyUsedKey}`)
+    }
+    return evictedKeys
+  }
+
+  /**
+   * Removes a cache item.
+   * @param {string} key - The unique identifier for the cache item
+   */
+  async delete (key: string): Promise<void> {
+    this.items.delete(key)
+  }
+
+  /**
+   * Returns the keys of all stored cache items, from least to most recently used.
+   * @returns {Promise<string[]>} The cache keys
+   */
+  async keys (): Promise<string[]> {
+    return Array.from(this.items.keys())
+  }
+}
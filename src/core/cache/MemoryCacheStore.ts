@@ -0,0 +1,56 @@
+import { Logger } from '../utils/Logger'
+import { CacheItem, CacheStore } from '../types'
+
+/**
+ * MemoryCacheStore class for storing cache items in an in-process Map.
+ * This is the default store of CacheManager.
+ * @extends Logger
+ * @implements {CacheStore}
+ */
+export class MemoryCacheStore extends Logger implements CacheStore {
+  private items: Map<string, CacheItem<any>>
+
+  /**
+   * Creates an instance of MemoryCacheStore.
+   */
+  constructor () {
+    super('MemoryCacheStore')
+    this.items = new Map()
+  }
+
+  /**
+   * Retrieves a cache item.
+   * @template T
+   * @param {string} key - The unique identifier for the cache item
+   * @returns {Promise<CacheItem<T> | undefined>} The cache item or undefined if not found
+   */
+  async get<T> (key: string): Promise<CacheItem<T> | undefined> {
+    return this.items.get(key)
+  }
+
+  /**
+   * Stores a cache item.
+   * @template T
+   * @param {string} key - The unique identifier for the cache item
+   * @param {CacheItem<T>} item - The cache item to store
+   */
+  async set<T> (key: string, item: CacheItem<T>): Promise<void> {
+    this.items.set(key, item)
+  }
+
+  /**
+   * Removes a cache item.
+   * @param {string} key - The unique identifier for the cache item
+   */
+  async delete (key: string): Promise<void> {
+    this.items.delete(key)
+  }
+
+  /**
+   * Returns the keys of all stored cache items.
+   * @returns {Promise<string[]>} The cache keys
+   */
+  async keys (): Promise<string[]> {
+    return Array.from(this.items.keys())
+  }
+}
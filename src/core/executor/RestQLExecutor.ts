@@ -1,12 +1,35 @@
 import { Logger } from '../utils/Logger'
-import { NetworkError } from '../validation/errors'
+import { NetworkError, ValidationError } from '../validation/errors'
 import {
   HttpMethod,
   RestQLExecutorOptions,
   ParsedQuery,
   SchemaResource,
-  VariableValues
+  VariableValues,
+  ArgumentValue,
+  RetryPolicy,
+  BatchPolicy,
+  PaginationPolicy,
+  PaginationStrategy,
+  PageInfo,
+  Endpoint,
+  ArgumentLocation,
+  RequestArguments,
+  HttpCacheValidators,
+  HttpCacheInfo,
+  InFlightRequest,
+  ExecutionContext,
+  RequestContext,
+  Middleware
 } from '../types'
+import { resolveArgumentValue } from '../utils/arguments'
+import { createAbortScope, raceWithSignal } from '../utils/abort'
+import { BatchManager } from '../batch/BatchManager'
+
+const IDEMPOTENT_METHODS: HttpMethod[] = [HttpMethod.GET, HttpMethod.PUT, HttpMethod.DELETE]
+const RETRYABLE_STATUS_CODES = [408, 429, 500, 502, 503, 504]
+const RETRY_AFTER_STATUS_CODES = [429, 503]
+const DATA_PATH_SEGMENT_PATTERN = /([\w$-]+)|\[(\d+)\]/g
 
 /**
  * RestQLExecutor class for executing REST queries based on provided schemas and variables.
@@ -15,15 +38,47 @@ import {
 export class RestQLExecutor extends Logger {
   private apiBaseUrls: { [key: string]: string }
   private defaultHeaders: { [key: string]: string }
+  private maxRetries: number
+  private retryDelay: number
+  private maxRetryDelay: number
+  private timeout: number
+  private middleware: Middleware[]
+  private inFlightRequests: Map<string, InFlightRequest<{ data: any; cacheInfo: HttpCacheInfo }>>
+  private batchManager: BatchManager
 
   /**
    * Creates an instance of RestQLExecutor.
    * @param {RestQLExecutorOptions} options - Configuration options for the executor
    */
-  constructor ({ baseUrls, headers }: RestQLExecutorOptions) {
+  constructor ({
+    baseUrls,
+    headers,
+    maxRetries = 0,
+    retryDelay = 1000,
+    maxRetryDelay = 30 * 1000,
+    maxBatchSize = Infinity,
+    timeout = Infinity,
+    middleware = []
+  }: RestQLExecutorOptions) {
     super('RestQLExecutor')
     this.apiBaseUrls = baseUrls
     this.defaultHeaders = headers
+    this.maxRetries = maxRetries
+    this.retryDelay = retryDelay
+    this.maxRetryDelay = maxRetryDelay
+    this.timeout = timeout
+    this.middleware = [...middleware]
+    this.inFlightRequests = new Map()
+    // Requests of endpoints declaring @batch are combined when sent in the same tick
+    this.batchManager = new BatchManager({ batchInterval: 0, maxBatchSize })
+  }
+
+  /**
+   * Adds a middleware to the end of the chain every request attempt goes through.
+   * @param {Middleware} middleware - The middleware, calling `next` to continue the chain
+   */
+  use (middleware: Middleware): void {
+    this.middleware.push(middleware)
   }
 
   /**
@@ -32,15 +87,53 @@ export class RestQLExecutor extends Logger {
    * @param {SchemaResource} resourceSchema - The schema for the resource being queried
    * @param {VariableValues} variableValues - Values for variables used in the query
    * @param {HttpMethod} httpMethod - The HTTP method to be used for the request
+   * @param {ExecutionContext} [context={}] - The operation and resource names passed to middleware and the signal aborting the request
    * @returns {Promise<any>} The response data from the API
    * @throws {Error} If the endpoint is not found or if the network request fails
+   * @throws {AbortError | TimeoutError} If the request is aborted or times out
    */
   async execute (
     parsedQuery: ParsedQuery,
     resourceSchema: SchemaResource,
     variableValues: VariableValues,
-    httpMethod: HttpMethod
+    httpMethod: HttpMethod,
+    context: ExecutionContext = {}
   ): Promise<any> {
+    const { data } = await this.executeConditional(
+      parsedQuery,
+      resourceSchema,
+      variableValues,
+      httpMethod,
+      {},
+      context
+    )
+    return data
+  }
+
+  /**
+   * Executes a REST query as a conditional request, sending `If-None-Match` and
+   * `If-Modified-Since` for the given validators, and reports the caching headers of the response.
+   * Identical GET requests sent while one is in flight share its response, and GET requests
+   * of endpoints declaring `@batch` are combined into a single request. A shared request is only
+   * aborted once every caller waiting for it is, the others keep waiting for its response.
+   * @param {ParsedQuery} parsedQuery - The parsed query object
+   * @param {SchemaResource} resourceSchema - The schema for the resource being queried
+   * @param {VariableValues} variableValues - Values for variables used in the query
+   * @param {HttpMethod} httpMethod - The HTTP method to be used for the request
+   * @param {HttpCacheValidators} [validators={}] - The validators of the cached response
+   * @param {ExecutionContext} [context={}] - The operation and resource names passed to middleware and the signal aborting the request
+   * @returns {Promise<{ data: any; cacheInfo: HttpCacheInfo }>} The response data, undefined if the cached response is still valid, and its caching information
+   * @throws {Error} If the endpoint is not found or if the network request fails
+   * @throws {AbortError | TimeoutError} If the request is aborted or times out
+   */
+  async executeConditional (
+    parsedQuery: ParsedQuery,
+    resourceSchema: SchemaResource,
+    variableValues: VariableValues,
+    httpMethod: HttpMethod,
+    validators: HttpCacheValidators = {},
+    context: ExecutionContext = {}
+  ): Promise<{ data: any; cacheInfo: HttpCacheInfo }> {
     this.log('Executing query:', {
       parsedQuery,
       resourceSchema,
@@ -49,11 +142,488 @@ export class RestQLExecutor extends Logger {
     })
 
     const endpointConfig = this.getEndpointConfig(resourceSchema, httpMethod, parsedQuery.queryName)
-    const fullUrl = this.constructFullUrl(endpointConfig.path, variableValues)
     const resolvedQueryArgs = this.resolveQueryArguments(parsedQuery.args, variableValues)
+    const requestArgs = this.groupArgumentsByLocation(
+      endpointConfig,
+      resolvedQueryArgs,
+      parsedQuery.queryName
+    )
+    const fullUrl = this.appendQueryString(
+      this.constructFullUrl(endpointConfig.path, { ...variableValues, ...requestArgs.PATH }),
+      requestArgs.QUERY
+    )
+    const requestOptions = this.prepareRequestOptions(httpMethod, requestArgs, validators)
+    // The caller's signal is followed once, so every abort reason is an AbortError or a TimeoutError
+    const abortScope = createAbortScope(context.signal, undefined, `Request to ${fullUrl}`)
+    const requestContext = {
+      operationName: context.operationName,
+      resourceName: context.resourceName ?? parsedQuery.queryName,
+      signal: abortScope.signal
+    }
+
+    try {
+      if (this.isBatchable(endpointConfig, requestArgs, validators)) {
+        return await this.loadBatched(endpointConfig, requestArgs, variableValues, requestContext)
+      }
+      if (httpMethod !== HttpMethod.GET) {
+        return await raceWithSignal(
+          this.sendRequest(
+            fullUrl,
+            httpMethod,
+            requestOptions,
+            endpointConfig,
+            validators,
+            requestContext
+          ),
+          abortScope.signal
+        )
+      }
+
+      const requestKey = this.getRequestKey(fullUrl, httpMethod, requestOptions, requestContext)
+      const inFlightRequest = this.inFlightRequests.get(requestKey)
+      if (inFlightRequest) {
+        this.log(`Sharing in-flight request: ${requestKey}`)
+        return await this.joinInFlightRequest(requestKey, inFlightRequest, abortScope.signal)
+      }
+
+      const controller = new AbortController()
+      const request: InFlightRequest<{ data: any; cacheInfo: HttpCacheInfo }> = {
+        promise: this.sendRequest(
+          fullUrl,
+          httpMethod,
+          requestOptions,
+          endpointConfig,
+          validators,
+          { ...requestContext, signal: controller.signal }
+        ).finally(() => {
+          if (this.inFlightRequests.get(requestKey) === request) {
+            this.inFlightRequests.delete(requestKey)
+          }
+        }),
+        controller,
+        signals: []
+      }
+      this.inFlightRequests.set(requestKey, request)
+      return await this.joinInFlightRequest(requestKey, request, abortScope.signal)
+    } finally {
+      abortScope.clear()
+    }
+  }
+
+  /**
+   * Fetches one page of a paginated GET endpoint declaring `@paginate`. The page token is the
+   * `endCursor` of the previous page: a cursor, an offset, a page number or the URL of the next page
+   * depending on the strategy, and the first page is fetched without one.
+   * @param {ParsedQuery} parsedQuery - The parsed query object
+   * @param {SchemaResource} resourceSchema - The schema for the resource being queried
+   * @param {VariableValues} variableValues - Values for variables used in the query
+   * @param {string} [pageToken] - The token of the page to fetch
+   * @param {ExecutionContext} [context={}] - The operation and resource names passed to middleware and the signal aborting the request
+   * @returns {Promise<{ data: any; items: any[]; pageInfo: PageInfo; cacheInfo: HttpCacheInfo }>} The response data, the items found at the endpoint's data path, the page info and the caching information
+   * @throws {Error} If the endpoint is not paginated or if the network request fails
+   * @throws {NetworkError} If the page does not hold a list of items
+   * @throws {AbortError | TimeoutError} If the request is aborted or times out
+   */
+  async executePage (
+    parsedQuery: ParsedQuery,
+    resourceSchema: SchemaResource,
+    variableValues: VariableValues,
+    pageToken?: string,
+    context: ExecutionContext = {}
+  ): Promise<{ data: any; items: any[]; pageInfo: PageInfo; cacheInfo: HttpCacheInfo }> {
+    this.log('Executing page:', { parsedQuery, pageToken })
+
+    const endpointConfig = this.getEndpointConfig(resourceSchema, HttpMethod.GET, parsedQuery.queryName)
+    if (!endpointConfig.paginate) {
+      throw new Error(`GET endpoint of resource "${parsedQuery.queryName}" is not paginated`)
+    }
+    const paginationPolicy = endpointConfig.paginate
+    const requestArgs = this.groupArgumentsByLocation(
+      endpointConfig,
+      {
+        ...this.resolveQueryArguments(parsedQuery.args, variableValues),
+        ...this.getPageArguments(paginationPolicy, pageToken)
+      },
+      parsedQuery.queryName
+    )
+    const fullUrl = paginationPolicy.strategy === PaginationStrategy.LINK_HEADER && pageToken
+      ? pageToken
+      : this.appendQueryString(
+        this.constructFullUrl(endpointConfig.path, { ...variableValues, ...requestArgs.PATH }),
+        requestArgs.QUERY
+      )
+
+    const abortScope = createAbortScope(context.signal, undefined, `Request to ${fullUrl}`)
+    let page: { data: any; headers: Headers }
+    try {
+      page = await this.performApiRequest(
+        fullUrl,
+        HttpMethod.GET,
+        this.prepareRequestOptions(HttpMethod.GET, requestArgs, {}),
+        endpointConfig,
+        {
+          operationName: context.operationName,
+          resourceName: context.resourceName ?? parsedQuery.queryName,
+          signal: abortScope.signal
+        },
+        async (apiResponse) => ({ data: await apiResponse.json(), headers: apiResponse.headers })
+      )
+    } finally {
+      abortScope.clear()
+    }
+    const { data, headers } = page
+    const items = this.readAtDataPath(data, endpointConfig.dataPath ?? '')
+    if (!Array.isArray(items)) {
+      throw new NetworkError(`Page of ${fullUrl} is not a list of items`)
+    }
+
+    const endCursor = this.getNextPageToken(paginationPolicy, pageToken, items, data, headers)
+    const cacheControl = this.parseCacheControl(headers.get('Cache-Control'))
+    return {
+      data,
+      items,
+      pageInfo: { hasNextPage: endCursor !== null, endCursor },
+      cacheInfo: {
+        notModified: false,
+        validators: {},
+        maxAge: cacheControl.maxAge,
+        noStore: cacheControl.noStore
+      }
+    }
+  }
+
+  /**
+   * Builds the arguments selecting a page: its position for the strategy and the page size.
+   * @param {PaginationPolicy} paginationPolicy - The pagination policy of the endpoint
+   * @param {string} [pageToken] - The token of the page to fetch
+   * @returns {{ [key: string]: any }} The page arguments
+   * @private
+   */
+  private getPageArguments (
+    paginationPolicy: PaginationPolicy,
+    pageToken?: string
+  ): { [key: string]: any } {
+    const { strategy, param, sizeParam = 'limit', pageSize } = paginationPolicy
+    const pageArgs: { [key: string]: any } = {}
+    if (pageSize !== undefined) {
+      pageArgs[sizeParam] = pageSize
+    }
+
+    if (strategy === PaginationStrategy.CURSOR && pageToken !== undefined) {
+      pageArgs[param ?? 'cursor'] = pageToken
+    } else if (strategy === PaginationStrategy.OFFSET) {
+      pageArgs[param ?? 'offset'] = Number(pageToken ?? 0)
+    } else if (strategy === PaginationStrategy.PAGE) {
+      pageArgs[param ?? 'page'] = Number(pageToken ?? 1)
+    }
+    return pageArgs
+  }
+
+  /**
+   * Determines the token of the page following a fetched page.
+   * Cursors are read from the response and next page URLs from its `Link` header, while offsets
+   * and page numbers advance until a page is empty or shorter than the page size.
+   * @param {PaginationPolicy} paginationPolicy - The pagination policy of the endpoint
+   * @param {string | undefined} pageToken - The token of the fetched page
+   * @param {any[]} items - The items of the fetched page
+   * @param {any} data - The response data of the fetched page
+   * @param {Headers} headers - The response headers of the fetched page
+   * @returns {string | null} The token of the next page or null if it is the last page
+   * @private
+   */
+  private getNextPageToken (
+    paginationPolicy: PaginationPolicy,
+    pageToken: string | undefined,
+    items: any[],
+    data: any,
+    headers: Headers
+  ): string | null {
+    const { strategy, pageSize, cursorPath = 'nextCursor' } = paginationPolicy
+
+    if (strategy === PaginationStrategy.CURSOR) {
+      const cursor = this.readAtDataPath(data, cursorPath)
+      return cursor === null || cursor === undefined || cursor === '' ? null : String(cursor)
+    }
+    if (strategy === PaginationStrategy.LINK_HEADER) {
+      return this.parseLinkHeader(headers.get('Link')).next ?? null
+    }
+
+    const isLastPage = items.length === 0 || (pageSize !== undefined && items.length < pageSize)
+    if (isLastPage) {
+      return null
+    }
+    return strategy === PaginationStrategy.OFFSET
+      ? String(Number(pageToken ?? 0) + items.length)
+      : String(Number(pageToken ?? 1) + 1)
+  }
+
+  /**
+   * Parses the URLs of a `Link` header keyed by their relation, e.g. `<https://api.example.com/users?page=2>; rel="next"`.
+   * @param {string | null} header - The Link header
+   * @returns {{ [rel: string]: string }} The URLs keyed by relation
+   * @private
+   */
+  private parseLinkHeader (header: string | null): { [rel: string]: string } {
+    const links: { [rel: string]: string } = {}
+    for (const [, url, rel] of (header ?? '').matchAll(/<([^>]*)>\s*;\s*rel="?([^",;]+)"?/g)) {
+      links[rel] = url
+    }
+    return links
+  }
+
+  /**
+   * Checks whether a request can be combined with others by the `@batch` policy of its endpoint:
+   * it must be an unconditional GET request sending a single key value in the query string.
+   * @param {Endpoint} endpointConfig - The endpoint configuration
+   * @param {RequestArguments} requestArgs - The arguments keyed by location
+   * @param {HttpCacheValidators} validators - The validators of the cached response
+   * @returns {boolean} True if the request can be batched, false otherwise
+   * @private
+   */
+  private isBatchable (
+    endpointConfig: Endpoint,
+    requestArgs: RequestArguments,
+    validators: HttpCacheValidators
+  ): boolean {
+    if (
+      !endpointConfig.batch ||
+      endpointConfig.method !== HttpMethod.GET ||
+      validators.etag ||
+      validators.lastModified
+    ) {
+      return false
+    }
+    const keyValue = requestArgs.QUERY[endpointConfig.batch.key]
+    return typeof keyValue === 'string' || typeof keyValue === 'number'
+  }
+
+  /**
+   * Loads a keyed item through the batch of its endpoint. Requests of the same operation and resource
+   * differing only in their key are sent as one request passing every key in the batch parameter, and the items of the
+   * response are matched back to each request by their key field, which defaults to the key argument.
+   * @param {Endpoint} endpointConfig - The endpoint configuration declaring the batch policy
+   * @param {RequestArguments} requestArgs - The arguments keyed by location
+   * @param {VariableValues} variableValues - Values for variables used in the query
+   * @param {ExecutionContext & { resourceName: string }} context - The operation and resource names passed to middleware and the signal aborting the request
+   * @returns {Promise<{ data: any; cacheInfo: HttpCacheInfo }>} The response of the single request, with the item at the endpoint's data path
+   * @private
+   */
+  private loadBatched (
+    endpointConfig: Endpoint,
+    requestArgs: RequestArguments,
+    variableValues: VariableValues,
+    context: ExecutionContext & { resourceName: string }
+  ): Promise<{ data: any; cacheInfo: HttpCacheInfo }> {
+    const batchPolicy = endpointConfig.batch as BatchPolicy
+    const { [batchPolicy.key]: keyValue, ...queryArgs } = requestArgs.QUERY
+    const url = this.constructFullUrl(endpointConfig.path, { ...variableValues, ...requestArgs.PATH })
+    const requestOptions = this.prepareRequestOptions(HttpMethod.GET, requestArgs, {})
+    const batchKey = this.getRequestKey(
+      this.appendQueryString(url, queryArgs),
+      HttpMethod.GET,
+      requestOptions,
+      context
+    )
+
+    return this.batchManager.load(
+      batchKey,
+      keyValue,
+      async (keyValues: Array<string | number>, batchSignal: AbortSignal) => {
+        const uniqueKeyValues = Array.from(new Set(keyValues))
+        const fullUrl = this.appendQueryString(url, {
+          ...queryArgs,
+          [batchPolicy.param]: batchPolicy.separator !== undefined
+            ? uniqueKeyValues.join(batchPolicy.separator)
+            : uniqueKeyValues
+        })
+        const { data, cacheInfo } = await this.sendRequest(
+          fullUrl,
+          HttpMethod.GET,
+          requestOptions,
+          endpointConfig,
+          {},
+          { ...context, signal: batchSignal }
+        )
+
+        const items = this.readAtDataPath(data, batchPolicy.path ?? '')
+        if (!Array.isArray(items)) {
+          throw new NetworkError(`Batched response of ${fullUrl} is not a list of items`)
+        }
+        const keyField = batchPolicy.field ?? batchPolicy.key
+        const itemsByKey = new Map(items.map((item) => [String(item?.[keyField]), item]))
+        // Validators of the combined response do not apply to a single item
+        const itemCacheInfo = { ...cacheInfo, notModified: false, validators: {} }
+
+        return keyValues.map((value) => {
+          const item = itemsByKey.get(String(value))
+          return item === undefined
+            ? new NetworkError(`No item with ${batchPolicy.key} ${value} in batched response of ${fullUrl}`)
+            : { data: this.wrapAtDataPath(item, endpointConfig.dataPath ?? ''), cacheInfo: itemCacheInfo }
+        })
+      },
+      batchPolicy.maxBatchSize,
+      context.signal
+    )
+  }
+
+  /**
+   * Waits for an in-flight request on behalf of a caller. When the caller's signal is aborted,
+   * the caller stops waiting, and the request is aborted once no caller waits for it anymore.
+   * The signal is followed until the caller stops waiting.
+   * @param {string} requestKey - The key of the request
+   * @param {InFlightRequest<{ data: any; cacheInfo: HttpCacheInfo }>} request - The in-flight request
+   * @param {AbortSignal} [signal] - The signal of the caller
+   * @returns {Promise<{ data: any; cacheInfo: HttpCacheInfo }>} The response of the request
+   * @private
+   */
+  private joinInFlightRequest (
+    requestKey: string,
+    request: InFlightRequest<{ data: any; cacheInfo: HttpCacheInfo }>,
+    signal?: AbortSignal
+  ): Promise<{ data: any; cacheInfo: HttpCacheInfo }> {
+    request.signals.push(signal)
+    const onAbort = () => {
+      if (request.signals.every((callerSignal) => callerSignal?.aborted)) {
+        // Later identical requests must not share the aborted one
+        if (this.inFlightRequests.get(requestKey) === request) {
+          this.inFlightRequests.delete(requestKey)
+        }
+        request.controller.abort(signal?.reason)
+      }
+    }
+    signal?.addEventListener('abort', onAbort, { once: true })
+    return raceWithSignal(request.promise, signal).finally(() => {
+      signal?.removeEventListener('abort', onAbort)
+    })
+  }
 
-    const apiResponse = await this.performApiRequest(fullUrl, httpMethod, resolvedQueryArgs)
-    return apiResponse.json()
+  /**
+   * Builds the response a single request would have returned, with the item at the given data path.
+   * @param {any} item - The item
+   * @param {string} dataPath - The dot-notated data path, possibly with array indexes
+   * @returns {any} The response
+   * @private
+   */
+  private wrapAtDataPath (item: any, dataPath: string): any {
+    return this.parseDataPath(dataPath).reduceRight((value: any, segment) => {
+      if (typeof segment === 'string') {
+        return { [segment]: value }
+      }
+      const array = []
+      array[segment] = value
+      return array
+    }, item)
+  }
+
+  /**
+   * Reads the value at a data path.
+   * @param {any} data - The data to read from
+   * @param {string} dataPath - The dot-notated data path, possibly with array indexes
+   * @returns {any} The value or undefined if the path does not exist
+   * @private
+   */
+  private readAtDataPath (data: any, dataPath: string): any {
+    return this.parseDataPath(dataPath).reduce((value, segment) => value?.[segment], data)
+  }
+
+  /**
+   * Splits a data path like `data.users[0]` into property names and array indexes.
+   * @param {string} dataPath - The dot-notated data path, possibly with array indexes
+   * @returns {Array<string | number>} The property names and array indexes
+   * @private
+   */
+  private parseDataPath (dataPath: string): Array<string | number> {
+    return Array.from(dataPath.matchAll(DATA_PATH_SEGMENT_PATTERN)).map(
+      ([, propertyName, index]) => (index === undefined ? propertyName : Number(index))
+    )
+  }
+
+  /**
+   * Sends a request and reads its response along with its caching headers.
+   * @param {string} url - The full URL for the request
+   * @param {HttpMethod} httpMethod - The HTTP method to use
+   * @param {RequestInit} requestOptions - The prepared request options
+   * @param {Endpoint} endpointConfig - The endpoint configuration declaring the retry and timeout policies
+   * @param {HttpCacheValidators} validators - The validators sent as conditional headers
+   * @param {ExecutionContext & { resourceName: string }} context - The operation and resource names passed to middleware and the signal aborting the request
+   * @returns {Promise<{ data: any; cacheInfo: HttpCacheInfo }>} The response data and its caching information
+   * @private
+   */
+  private async sendRequest (
+    url: string,
+    httpMethod: HttpMethod,
+    requestOptions: RequestInit,
+    endpointConfig: Endpoint,
+    validators: HttpCacheValidators,
+    context: ExecutionContext & { resourceName: string }
+  ): Promise<{ data: any; cacheInfo: HttpCacheInfo }> {
+    return this.performApiRequest(url, httpMethod, requestOptions, endpointConfig, context, async (apiResponse) => {
+      const notModified = apiResponse.status === 304
+      const cacheControl = this.parseCacheControl(apiResponse.headers.get('Cache-Control'))
+
+      return {
+        data: notModified ? undefined : await apiResponse.json(),
+        cacheInfo: {
+          notModified,
+          // A 304 response may omit the validators it confirms
+          validators: {
+            etag: apiResponse.headers.get('ETag') ?? (notModified ? validators.etag : undefined),
+            lastModified:
+              apiResponse.headers.get('Last-Modified') ??
+              (notModified ? validators.lastModified : undefined)
+          },
+          maxAge: cacheControl.maxAge,
+          noStore: cacheControl.noStore
+        }
+      }
+    })
+  }
+
+  /**
+   * Builds the key identifying identical requests: their method, URL and headers, and the
+   * operation and resource names passed to middleware, so shared requests run the middleware
+   * chain with the context of every caller.
+   * @param {string} url - The full URL for the request
+   * @param {HttpMethod} httpMethod - The HTTP method of the request
+   * @param {RequestInit} requestOptions - The prepared request options
+   * @param {ExecutionContext} context - The operation and resource names passed to middleware
+   * @returns {string} The request key
+   * @private
+   */
+  private getRequestKey (
+    url: string,
+    httpMethod: HttpMethod,
+    requestOptions: RequestInit,
+    context: ExecutionContext
+  ): string {
+    const headers = Object.entries(requestOptions.headers as { [key: string]: string })
+      .sort(([a], [b]) => a.localeCompare(b))
+    return `${httpMethod} ${url} ${JSON.stringify(headers)} ${JSON.stringify([context.operationName, context.resourceName])}`
+  }
+
+  /**
+   * Parses the directives of a Cache-Control header that affect client-side caching.
+   * `no-cache` is treated as a max-age of 0, so the response is revalidated on every use.
+   * @param {string | null} cacheControl - The Cache-Control header
+   * @returns {{ maxAge?: number; noStore: boolean }} The max-age in milliseconds and whether the response must not be stored
+   * @private
+   */
+  private parseCacheControl (cacheControl: string | null): { maxAge?: number; noStore: boolean } {
+    const directives = (cacheControl ?? '')
+      .split(',')
+      .map((directive) => directive.trim().toLowerCase())
+
+    let maxAge: number | undefined
+    for (const directive of directives) {
+      const maxAgeMatch = /^max-age=(\d+)$/.exec(directive)
+      if (maxAgeMatch) {
+        maxAge = Number(maxAgeMatch[1]) * 1000
+      } else if (directive === 'no-cache') {
+        maxAge = 0
+      }
+    }
+
+    return { maxAge, noStore: directives.includes('no-store') }
   }
 
   /**
@@ -61,11 +631,11 @@ export class RestQLExecutor extends Logger {
    * @param {SchemaResource} resourceSchema - The schema for the resource
    * @param {HttpMethod} httpMethod - The HTTP method for the endpoint
    * @param {string} queryName - The name of the query
-   * @returns {any} The endpoint configuration
+   * @returns {Endpoint} The endpoint configuration
    * @throws {Error} If no endpoint is found for the given method and resource
    * @private
    */
-  private getEndpointConfig (resourceSchema: SchemaResource, httpMethod: HttpMethod, queryName: string): any {
+  private getEndpointConfig (resourceSchema: SchemaResource, httpMethod: HttpMethod, queryName: string): Endpoint {
     const endpointConfig = resourceSchema.endpoints[httpMethod]
     if (!endpointConfig) {
       const errorMessage = `No ${httpMethod} endpoint found for resource "${queryName}".`
@@ -155,68 +725,272 @@ export class RestQLExecutor extends Logger {
    * @returns {Object} The resolved query arguments
    * @private
    */
-  private resolveQueryArguments (args: { [key: string]: any }, variableValues: { [key: string]: any }): { [key: string]: any } {
+  private resolveQueryArguments (args: { [key: string]: ArgumentValue }, variableValues: { [key: string]: any }): { [key: string]: any } {
     const resolvedArgs: { [key: string]: any } = {}
     for (const [key, value] of Object.entries(args)) {
-      resolvedArgs[key] = typeof value === 'string' && value.startsWith('$')
-        ? variableValues[value.slice(1)]
-        : value
+      resolvedArgs[key] = resolveArgumentValue(value, variableValues)
     }
     return resolvedArgs
   }
 
   /**
-   * Performs the actual API request.
+   * Groups resolved arguments by the part of the request they are sent in and applies
+   * the default values of declared arguments. Undeclared arguments go to the query string for GET
+   * endpoints and to the body otherwise. Those the path template names also fill the path, and are
+   * only left out of the query string, so bodies keep every undeclared argument.
+   * @param {Endpoint} endpoint - The endpoint configuration
+   * @param {Object} resolvedArgs - The resolved query arguments
+   * @param {string} queryName - The name of the query
+   * @returns {RequestArguments} The arguments keyed by location
+   * @throws {ValidationError} If a required argument has no value
+   * @private
+   */
+  private groupArgumentsByLocation (
+    endpoint: Endpoint,
+    resolvedArgs: { [key: string]: any },
+    queryName: string
+  ): RequestArguments {
+    const requestArgs: RequestArguments = { PATH: {}, QUERY: {}, HEADER: {}, BODY: {} }
+    const declaredArgs = endpoint.args ?? {}
+    const defaultLocation = endpoint.method === HttpMethod.GET
+      ? ArgumentLocation.QUERY
+      : ArgumentLocation.BODY
+
+    const pathArgNames = Array.from(endpoint.path.matchAll(/{(\w+)}/g), ([, argName]) => argName)
+
+    for (const [argName, value] of Object.entries(resolvedArgs)) {
+      const declaredLocation = declaredArgs[argName]?.in
+      if (declaredLocation) {
+        requestArgs[declaredLocation][argName] = value
+        continue
+      }
+      if (pathArgNames.includes(argName)) {
+        requestArgs.PATH[argName] = value
+      }
+      if (!pathArgNames.includes(argName) || defaultLocation === ArgumentLocation.BODY) {
+        requestArgs[defaultLocation][argName] = value
+      }
+    }
+
+    for (const [argName, argument] of Object.entries(declaredArgs)) {
+      if (resolvedArgs[argName] !== undefined) {
+        continue
+      }
+      if (argument.defaultValue !== undefined) {
+        requestArgs[argument.in][argName] = argument.defaultValue
+      } else if (argument.isRequired) {
+        const errorMessage = `Missing required argument "${argName}" for ${endpoint.method} endpoint of resource "${queryName}".`
+        this.error(errorMessage)
+        throw new ValidationError(errorMessage)
+      }
+    }
+
+    return requestArgs
+  }
+
+  /**
+   * Performs the actual API request, retrying transient failures with exponential backoff.
+   * Only idempotent methods are retried unless the endpoint's retry policy marks it as idempotent,
+   * and no retry waits longer than the maximum retry delay, whatever the Retry-After header asks for.
+   * Each attempt is aborted after the endpoint's `@timeout`, or the default timeout, and aborted or
+   * timed out requests are not retried. Every attempt goes through the middleware chain.
+   * The successful response is read within its attempt, so the timeout and the signal cover its body too.
+   * @template T
    * @param {string} url - The full URL for the request
    * @param {HttpMethod} httpMethod - The HTTP method to use
-   * @param {Object} queryArgs - The query arguments
-   * @returns {Promise<Response>} The response from the API
-   * @throws {NetworkError} If the request fails
+   * @param {RequestInit} requestOptions - The prepared request options
+   * @param {Pick<Endpoint, 'retry' | 'timeout'>} endpointConfig - The per-endpoint retry and timeout policies overriding the defaults
+   * @param {ExecutionContext & { resourceName: string }} context - The operation and resource names passed to middleware and the signal aborting the request with an AbortError or a TimeoutError
+   * @param {(response: Response) => Promise<T>} readResponse - Reads the response, which is a 304 response if the conditional headers still match
+   * @returns {Promise<T>} The value read from the response
+   * @throws {NetworkError} If the request fails after all retries
+   * @throws {AbortError | TimeoutError} If the request is aborted or times out
    * @private
    */
-  private async performApiRequest (
+  private async performApiRequest<T> (
     url: string,
     httpMethod: HttpMethod,
-    queryArgs: any
-  ): Promise<Response> {
-    const requestOptions: RequestInit = this.prepareRequestOptions(httpMethod, queryArgs)
+    requestOptions: RequestInit,
+    endpointConfig: Pick<Endpoint, 'retry' | 'timeout'>,
+    context: ExecutionContext & { resourceName: string },
+    readResponse: (response: Response) => Promise<T>
+  ): Promise<T> {
+    const retryPolicy = endpointConfig.retry ?? {}
+    const maxRetries = this.isRetryable(httpMethod, retryPolicy)
+      ? retryPolicy.maxRetries ?? this.maxRetries
+      : 0
+    const retryDelay = retryPolicy.retryDelay ?? this.retryDelay
+    const timeout = endpointConfig.timeout?.ms ?? this.timeout
+    const { signal, resourceName, operationName } = context
 
-    if (httpMethod === HttpMethod.GET) {
-      url = this.appendQueryString(url, queryArgs)
-    }
+    for (let attempt = 0; ; attempt++) {
+      const abortScope = createAbortScope(signal, timeout, `Request to ${url}`)
+      let response: Response
+      try {
+        abortScope.signal.throwIfAborted()
+        this.log(`Sending ${httpMethod} request to ${url} (attempt ${attempt + 1} of ${maxRetries + 1})`)
+        response = await this.dispatchRequest({
+          method: httpMethod,
+          url,
+          headers: { ...(requestOptions.headers as { [key: string]: string }) },
+          body: requestOptions.body as string | undefined,
+          resourceName,
+          operationName,
+          attempt: attempt + 1,
+          signal: abortScope.signal
+        })
+      } catch (error) {
+        abortScope.clear()
+        if (abortScope.signal.aborted) {
+          this.error(abortScope.signal.reason.message)
+          throw abortScope.signal.reason
+        }
+        const errorMessage = `Request to ${url} failed: ${(error as Error).message}`
+        this.error(errorMessage)
+        if (attempt >= maxRetries) {
+          throw new NetworkError(errorMessage)
+        }
+        await this.wait(Math.min(this.getBackoffDelay(retryDelay, attempt), this.maxRetryDelay), signal)
+        continue
+      }
 
-    this.log(`Sending ${httpMethod} request to ${url}`)
-    const response = await fetch(url, requestOptions)
+      try {
+        if (response.ok || response.status === 304) {
+          return await raceWithSignal(readResponse(response), abortScope.signal)
+        }
+      } finally {
+        abortScope.clear()
+      }
 
-    if (!response.ok) {
       const errorMessage = `Request to ${url} failed with status ${response.status}`
       this.error(errorMessage)
-      throw new NetworkError(errorMessage)
+      // The body of a failed response is never read, so it is canceled to release the connection
+      await response.body?.cancel().catch(() => {})
+      if (attempt >= maxRetries || !RETRYABLE_STATUS_CODES.includes(response.status)) {
+        throw new NetworkError(errorMessage)
+      }
+      await this.wait(
+        Math.min(
+          this.getRetryAfterDelay(response) ?? this.getBackoffDelay(retryDelay, attempt),
+          this.maxRetryDelay
+        ),
+        signal
+      )
+    }
+  }
+
+  /**
+   * Passes a request attempt to the middleware at the given position of the chain. Each middleware
+   * may change the context before calling `next`, and the end of the chain sends the request.
+   * @param {RequestContext} context - The request attempt
+   * @param {number} [index=0] - The position of the middleware in the chain
+   * @returns {Promise<Response>} The response returned by the chain
+   * @private
+   */
+  private dispatchRequest (context: RequestContext, index = 0): Promise<Response> {
+    const middleware = this.middleware[index]
+    if (!middleware) {
+      const { method, url, headers, body, signal } = context
+      return fetch(url, { method, headers, body, signal })
+    }
+    return middleware(context, () => this.dispatchRequest(context, index + 1))
+  }
+
+  /**
+   * Checks whether a request may be retried.
+   * @param {HttpMethod} httpMethod - The HTTP method of the request
+   * @param {RetryPolicy} retryPolicy - The per-endpoint retry policy
+   * @returns {boolean} True if the request may be retried, false otherwise
+   * @private
+   */
+  private isRetryable (httpMethod: HttpMethod, retryPolicy: RetryPolicy): boolean {
+    return retryPolicy.idempotent ?? IDEMPOTENT_METHODS.includes(httpMethod)
+  }
+
+  /**
+   * Computes the exponential backoff delay with jitter for a retry attempt.
+   * @param {number} baseDelay - The base delay in milliseconds
+   * @param {number} attempt - The zero-based index of the failed attempt
+   * @returns {number} The delay in milliseconds
+   * @private
+   */
+  private getBackoffDelay (baseDelay: number, attempt: number): number {
+    const exponentialDelay = baseDelay * Math.pow(2, attempt)
+    return exponentialDelay / 2 + Math.random() * (exponentialDelay / 2)
+  }
+
+  /**
+   * Reads the delay requested by the server through the Retry-After header on 429 and 503 responses.
+   * @param {Response} response - The failed response
+   * @returns {number | null} The delay in milliseconds or null if the header is absent or invalid
+   * @private
+   */
+  private getRetryAfterDelay (response: Response): number | null {
+    if (!RETRY_AFTER_STATUS_CODES.includes(response.status)) {
+      return null
     }
 
-    return response
+    const retryAfter = response.headers.get('Retry-After')
+    if (!retryAfter) {
+      return null
+    }
+
+    const seconds = Number(retryAfter)
+    if (!isNaN(seconds)) {
+      return Math.max(0, seconds * 1000)
+    }
+
+    const retryDate = Date.parse(retryAfter)
+    return isNaN(retryDate) ? null : Math.max(0, retryDate - Date.now())
+  }
+
+  /**
+   * Waits for the given number of milliseconds.
+   * @param {number} delay - The delay in milliseconds
+   * @param {AbortSignal} [signal] - The signal ending the wait with its abort reason
+   * @returns {Promise<void>}
+   * @private
+   */
+  private wait (delay: number, signal?: AbortSignal): Promise<void> {
+    return raceWithSignal(new Promise((resolve) => setTimeout(resolve, delay)), signal)
   }
 
   /**
    * Prepares the options for the fetch request.
    * @param {HttpMethod} httpMethod - The HTTP method for the request
-   * @param {Object} queryArgs - The query arguments
+   * @param {RequestArguments} requestArgs - The arguments keyed by location
+   * @param {HttpCacheValidators} validators - The validators to send as conditional headers
    * @returns {RequestInit} The prepared request options
    * @private
    */
-  private prepareRequestOptions (httpMethod: HttpMethod, queryArgs: any): RequestInit {
-    const options: RequestInit = {
-      method: httpMethod,
-      headers: {
-        ...this.defaultHeaders,
-        'Content-Type': 'application/json'
+  private prepareRequestOptions (
+    httpMethod: HttpMethod,
+    requestArgs: RequestArguments,
+    validators: HttpCacheValidators
+  ): RequestInit {
+    const headers: { [key: string]: string } = {
+      ...this.defaultHeaders,
+      'Content-Type': 'application/json'
+    }
+    if (validators.etag) {
+      headers['If-None-Match'] = validators.etag
+    }
+    if (validators.lastModified) {
+      headers['If-Modified-Since'] = validators.lastModified
+    }
+    for (const [headerName, value] of Object.entries(requestArgs.HEADER)) {
+      const serializedValue = this.serializeQueryValue(value)
+      if (serializedValue !== null) {
+        headers[headerName] = serializedValue
       }
     }
 
-    if (httpMethod !== HttpMethod.GET && Object.keys(queryArgs).length > 0) {
+    const options: RequestInit = { method: httpMethod, headers }
+
+    if (httpMethod !== HttpMethod.GET && Object.keys(requestArgs.BODY).length > 0) {
       options.body = JSON.stringify(
         Object.fromEntries(
-          Object.entries(queryArgs).filter(([_, v]) => v !== undefined)
+          Object.entries(requestArgs.BODY).filter(([_, v]) => v !== undefined)
         )
       )
     }
@@ -225,7 +999,8 @@ export class RestQLExecutor extends Logger {
   }
 
   /**
-   * Appends query string to the URL for GET requests.
+   * Appends the query string arguments to the URL.
+   * List values are sent as repeated parameters (`ids=1&ids=2`).
    * @param {string} url - The base URL
    * @param {Object} queryArgs - The query arguments to append
    * @returns {string} The URL with appended query string
@@ -234,11 +1009,29 @@ export class RestQLExecutor extends Logger {
   private appendQueryString (url: string, queryArgs: any): string {
     const queryParams = new URLSearchParams()
     for (const [key, value] of Object.entries(queryArgs)) {
-      if (value !== undefined) {
-        queryParams.append(key, value.toString())
+      const items = Array.isArray(value) ? value : [value]
+      for (const item of items) {
+        const serializedItem = this.serializeQueryValue(item)
+        if (serializedItem !== null) {
+          queryParams.append(key, serializedItem)
+        }
       }
     }
     const queryString = queryParams.toString()
     return queryString ? `${url}?${queryString}` : url
   }
+
+  /**
+   * Serializes a single query string or header value. Objects are sent as JSON and
+   * null or undefined values are omitted.
+   * @param {any} value - The value to serialize
+   * @returns {string | null} The serialized value or null if it should be omitted
+   * @private
+   */
+  private serializeQueryValue (value: any): string | null {
+    if (value === null || value === undefined) {
+      return null
+    }
+    return typeof value === 'object' ? JSON.stringify(value) : String(value)
+  }
 }
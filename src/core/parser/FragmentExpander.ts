@@ -0,0 +1,281 @@
+import { Logger } from '../utils/Logger'
+import { ValidationError } from '../validation/errors'
+import { getCanonicalTypeName } from '../utils/schema'
+import {
+  Schema,
+  ParsedOperation,
+  ParsedField,
+  FragmentDefinition,
+  FragmentSpread,
+  SchemaResource,
+  ValueType
+} from '../types'
+
+/**
+ * FragmentExpander class for inlining fragment spreads into the selection sets of an operation.
+ * @extends Logger
+ */
+export class FragmentExpander extends Logger {
+  private schema?: Schema
+  private fragments: { [key: string]: FragmentDefinition }
+
+  /**
+   * Creates an instance of FragmentExpander.
+   * @param {Schema} [schema] - The schema used to check type conditions; checks are skipped without one
+   */
+  constructor (schema?: Schema) {
+    super('FragmentExpander')
+    this.schema = schema
+    this.fragments = {}
+  }
+
+  /**
+   * Expands all fragment spreads of an operation in place.
+   * @param {ParsedOperation} operation - The parsed operation to expand
+   * @throws {ValidationError} If a fragment is unknown, cyclic or spread on the wrong type
+   */
+  expand (operation: ParsedOperation): void {
+    this.fragments = operation.fragments
+
+    for (const query of operation.queries) {
+      const parentType = this.getRootTypeName(
+        operation.operationType,
+        query.queryName
+      )
+      query.fields = this.expandSelectionSet(
+        query.fields,
+        query.spreads,
+        parentType,
+        []
+      )
+      delete query.spreads
+    }
+    this.log('Expanded fragments:', operation.queries)
+  }
+
+  /**
+   * Expands the spreads of a selection set and of all its nested selection sets.
+   * @param {{ [key: string]: ParsedField }} fields - The fields of the selection set
+   * @param {FragmentSpread[] | undefined} spreads - The spreads of the selection set
+   * @param {string | undefined} parentType - The canonical name of the type the selection set applies to
+   * @param {string[]} fragmentPath - The names of the fragments currently being expanded
+   * @returns {{ [key: string]: ParsedField }} The expanded fields
+   * @private
+   */
+  private expandSelectionSet (
+    fields: { [key: string]: ParsedField },
+    spreads: FragmentSpread[] | undefined,
+    parentType: string | undefined,
+    fragmentPath: string[]
+  ): { [key: string]: ParsedField } {
+    for (const field of Object.values(fields)) {
+      if (field.fields) {
+        field.fields = this.expandSelectionSet(
+          field.fields,
+          field.spreads,
+          this.getFieldTypeName(parentType, field.name),
+          fragmentPath
+        )
+        delete field.spreads
+      }
+    }
+
+    for (const spread of spreads || []) {
+      let source: FragmentDefinition | FragmentSpread = spread
+      let nextFragmentPath = fragmentPath
+
+      if (spread.fragmentName) {
+        source = this.getFragment(spread.fragmentName, spread.pos)
+        if (fragmentPath.includes(spread.fragmentName)) {
+          this.throwError(
+            `Fragment cycle detected: ${[...fragmentPath, spread.fragmentName].join(' -> ')}`
+          )
+        }
+        nextFragmentPath = [...fragmentPath, spread.fragmentName]
+      }
+
+      const spreadType = this.checkTypeCondition(
+        source.typeCondition,
+        parentType,
+        spread.pos
+      )
+      const expandedFields = this.expandSelectionSet(
+        this.cloneFields(source.fields || {}),
+        source.spreads,
+        spreadType ?? parentType,
+        nextFragmentPath
+      )
+      this.mergeFields(fields, expandedFields, spread.pos)
+    }
+
+    return fields
+  }
+
+  /**
+   * Retrieves a fragment definition by name.
+   * @param {string} fragmentName - The name of the fragment
+   * @param {number} pos - The position of the spread referencing the fragment
+   * @returns {FragmentDefinition} The fragment definition
+   * @throws {ValidationError} If the fragment is not defined
+   * @private
+   */
+  private getFragment (fragmentName: string, pos: number): FragmentDefinition {
+    const fragment = this.fragments[fragmentName]
+    if (!fragment) {
+      this.throwError(`Unknown fragment "${fragmentName}" at position ${pos}`)
+    }
+    return fragment
+  }
+
+  /**
+   * Checks that a type condition names a known type matching the parent type.
+   * @param {string | undefined} typeCondition - The type condition of the fragment
+   * @param {string | undefined} parentType - The canonical name of the type the spread applies to
+   * @param {number} pos - The position of the spread
+   * @returns {string | undefined} The canonical name of the type condition
+   * @throws {ValidationError} If the type condition is unknown or does not match the parent type
+   * @private
+   */
+  private checkTypeCondition (
+    typeCondition: string | undefined,
+    parentType: string | undefined,
+    pos: number
+  ): string | undefined {
+    if (!this.schema || !typeCondition) {
+      return undefined
+    }
+
+    const conditionType = this.getCanonicalTypeName(typeCondition)
+    if (!conditionType) {
+      this.throwError(
+        `Unknown type "${typeCondition}" in fragment type condition at position ${pos}`
+      )
+    }
+    if (parentType && conditionType !== parentType) {
+      this.throwError(
+        `Fragment on "${typeCondition}" cannot be spread within "${parentType}" at position ${pos}`
+      )
+    }
+    return conditionType
+  }
+
+  /**
+   * Merges expanded fragment fields into a selection set.
+   * @param {{ [key: string]: ParsedField }} target - The selection set to merge into
+   * @param {{ [key: string]: ParsedField }} source - The fields to merge
+   * @param {number} pos - The position of the spread the fields come from
+   * @throws {ValidationError} If a response key selects conflicting fields
+   * @private
+   */
+  private mergeFields (
+    target: { [key: string]: ParsedField },
+    source: { [key: string]: ParsedField },
+    pos: number
+  ): void {
+    for (const [responseKey, sourceField] of Object.entries(source)) {
+      const targetField = target[responseKey]
+      if (!targetField) {
+        target[responseKey] = sourceField
+        continue
+      }
+
+      if (
+        targetField.name !== sourceField.name ||
+        JSON.stringify(targetField.args) !== JSON.stringify(sourceField.args) ||
+        !targetField.fields !== !sourceField.fields
+      ) {
+        this.throwError(
+          `Conflicting selections for "${responseKey}" in fragment spread at position ${pos}`
+        )
+      }
+
+      if (sourceField.directives) {
+        targetField.directives = [
+          ...(targetField.directives ?? []),
+          ...sourceField.directives
+        ]
+      }
+      if (targetField.fields && sourceField.fields) {
+        this.mergeFields(targetField.fields, sourceField.fields, pos)
+      }
+    }
+  }
+
+  /**
+   * Deep clones a selection set so fragments spread multiple times do not share state.
+   * @param {{ [key: string]: ParsedField }} fields - The fields to clone
+   * @returns {{ [key: string]: ParsedField }} The cloned fields
+   * @private
+   */
+  private cloneFields (fields: { [key: string]: ParsedField }): {
+    [key: string]: ParsedField;
+  } {
+    return JSON.parse(JSON.stringify(fields))
+  }
+
+  /**
+   * Resolves the canonical type name of a top-level field: the queried resource for
+   * queries and the declared return type for mutations.
+   * @param {'query' | 'mutation'} operationType - The type of the operation
+   * @param {string} queryName - The name of the top-level field
+   * @returns {string | undefined} The canonical type name or undefined if it cannot be resolved
+   * @private
+   */
+  private getRootTypeName (
+    operationType: 'query' | 'mutation',
+    queryName: string
+  ): string | undefined {
+    if (operationType === 'query') {
+      return this.getCanonicalTypeName(queryName)
+    }
+
+    const mutationDefinition = this.schema?._mutations?.[queryName]
+    return mutationDefinition
+      ? this.getCanonicalTypeName(mutationDefinition.type)
+      : undefined
+  }
+
+  /**
+   * Resolves the canonical type name of a field of the given parent type.
+   * @param {string | undefined} parentType - The canonical name of the parent type
+   * @param {string} fieldName - The name of the field
+   * @returns {string | undefined} The canonical type name or undefined if it cannot be resolved
+   * @private
+   */
+  private getFieldTypeName (
+    parentType: string | undefined,
+    fieldName: string
+  ): string | undefined {
+    if (!this.schema || !parentType) {
+      return undefined
+    }
+
+    const parentSchema: SchemaResource | ValueType | undefined =
+      this.schema._types[parentType] ?? this.schema[parentType]
+    const fieldSchema = parentSchema?.fields[fieldName]
+    return fieldSchema
+      ? this.getCanonicalTypeName(fieldSchema.type)
+      : undefined
+  }
+
+  /**
+   * Resolves the canonical name of a type when a schema is available.
+   * @param {string} typeName - The type name
+   * @returns {string | undefined} The canonical type name or undefined if the type is unknown
+   * @private
+   */
+  private getCanonicalTypeName (typeName: string): string | undefined {
+    return this.schema ? getCanonicalTypeName(this.schema, typeName) : undefined
+  }
+
+  /**
+   * Logs and throws a validation error.
+   * @param {string} errorMessage - The error message
+   * @throws {ValidationError} Always throws this error
+   * @private
+   */
+  private throwError (errorMessage: string): never {
+    this.error(errorMessage)
+    throw new ValidationError(errorMessage)
+  }
+}
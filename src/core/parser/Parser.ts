@@ -1,10 +1,18 @@
 import { Logger } from '../utils/Logger'
 import { Tokenizer } from '../parser/Tokenizer'
+import { FragmentExpander } from '../parser/FragmentExpander'
+import { isVariableReference } from '../utils/arguments'
 import {
   Token,
   ParsedOperation,
   TokenType,
   ParsedQuery,
+  ParsedField,
+  FragmentDefinition,
+  FragmentSpread,
+  ParsedDirective,
+  Schema,
+  ArgumentValue,
   VariableDefinition
 } from '../types'
 
@@ -16,17 +24,22 @@ export class RestQLParser extends Logger {
   private tokenSequence: Token[] = []
   private currentPosition = 0
   private tokenizer: Tokenizer
+  private fragmentExpander: FragmentExpander
 
   /**
    * Creates an instance of RestQLParser.
+   * @param {Schema} [schema] - The schema used to check fragment type conditions
    */
-  constructor () {
+  constructor (schema?: Schema) {
     super('RestQLParser')
     this.tokenizer = new Tokenizer()
+    this.fragmentExpander = new FragmentExpander(schema)
   }
 
   /**
-   * Parses a RestQL operation string into a structured format.
+   * Parses a RestQL document into a structured format.
+   * The document holds a single operation and any number of fragment definitions,
+   * whose spreads are expanded into the operation's selection sets.
    * @param {string} operationString - The RestQL operation string to parse
    * @returns {ParsedOperation} The parsed operation structure
    * @throws {Error} If parsing fails
@@ -36,18 +49,35 @@ export class RestQLParser extends Logger {
       this.tokenSequence = this.tokenizer.tokenize(operationString)
       this.currentPosition = 0
 
-      const operationType = this.extractOperationType()
-      const operationName = this.extractOperationName()
-      const variables = this.extractVariables()
-      const queries = this.extractQueries()
+      const fragments: { [key: string]: FragmentDefinition } = {}
+      let parsedOperation: ParsedOperation | null = null
+
+      while (this.peekNextToken().type !== TokenType.EOF) {
+        if (this.peekNextToken().value === 'fragment') {
+          const fragment = this.extractFragmentDefinition()
+          if (fragments[fragment.name]) {
+            throw new Error(
+              `Duplicate fragment "${fragment.name}" at position ${fragment.pos}`
+            )
+          }
+          fragments[fragment.name] = fragment
+        } else if (!parsedOperation) {
+          parsedOperation = this.extractOperation(fragments)
+        } else {
+          throw new Error(
+            `Unexpected second operation at position ${
+              this.peekNextToken().pos
+            }. Only one operation is allowed per document`
+          )
+        }
+      }
 
-      const parsedOperation: ParsedOperation = {
-        operationType,
-        operationName,
-        variables,
-        queries
+      if (!parsedOperation) {
+        throw new Error('No operation found in document')
       }
 
+      this.fragmentExpander.expand(parsedOperation)
+
       this.log('Parsed operation:', parsedOperation)
       return parsedOperation
     } catch (error) {
@@ -56,6 +86,48 @@ export class RestQLParser extends Logger {
     }
   }
 
+  /**
+   * Extracts an operation from the token sequence.
+   * @param {{ [key: string]: FragmentDefinition }} fragments - The fragment definitions of the document
+   * @returns {ParsedOperation} The extracted operation
+   * @private
+   */
+  private extractOperation (fragments: {
+    [key: string]: FragmentDefinition;
+  }): ParsedOperation {
+    const operationType = this.extractOperationType()
+    const operationName = this.extractOperationName()
+    const variables = this.extractVariables()
+    const queries = this.extractQueries()
+
+    return {
+      operationType,
+      operationName,
+      variables,
+      queries,
+      fragments
+    }
+  }
+
+  /**
+   * Extracts a fragment definition (`fragment Name on Type { ... }`) from the token sequence.
+   * @returns {FragmentDefinition} The extracted fragment definition
+   * @private
+   */
+  private extractFragmentDefinition (): FragmentDefinition {
+    const pos = this.consumeToken(TokenType.IDENTIFIER).pos
+    const name = this.consumeToken(TokenType.IDENTIFIER).value
+    this.consumeKeyword('on')
+    const typeCondition = this.consumeToken(TokenType.IDENTIFIER).value
+    const { fields, spreads } = this.extractSelectionSet()
+
+    const fragment: FragmentDefinition = { name, typeCondition, fields, pos }
+    if (spreads.length > 0) {
+      fragment.spreads = spreads
+    }
+    return fragment
+  }
+
   /**
    * Extracts the operation type from the token sequence.
    * @returns {"query" | "mutation"} The operation type
@@ -92,15 +164,28 @@ export class RestQLParser extends Logger {
       while (this.peekNextToken().type !== TokenType.RIGHT_PAREN) {
         const varName = this.consumeToken(TokenType.IDENTIFIER).value.slice(1) // Remove the '$' prefix
         this.consumeToken(TokenType.COLON)
-        let varType = this.consumeToken(TokenType.IDENTIFIER).value
-        const isRequired = this.peekNextToken().type === TokenType.EXCLAMATION
-        if (isRequired) {
-          this.consumeToken(TokenType.EXCLAMATION)
-          varType += '!'
+        const varType = this.extractTypeReference()
+        const variable: VariableDefinition = {
+          type: varType,
+          isRequired: varType.endsWith('!')
+        }
+
+        if (this.peekNextToken().type === TokenType.EQUALS) {
+          this.consumeToken(TokenType.EQUALS)
+          const defaultToken = this.peekNextToken()
+          variable.defaultValue = this.extractValue()
+          if (this.containsVariableReference(variable.defaultValue)) {
+            const errorMessage = `Default value of variable $${varName} at position ${defaultToken.pos} must not reference variables`
+            this.error(errorMessage)
+            throw new Error(errorMessage)
+          }
+          // Variables with a default value may be omitted even if their type is non-null
+          variable.isRequired = false
         }
-        variables[varName] = { type: varType, isRequired }
+
+        variables[varName] = variable
         this.log(
-          `Extracted variable: ${varName}, type: ${varType}, required: ${isRequired}`
+          `Extracted variable: ${varName}, type: ${varType}, required: ${variable.isRequired}`
         )
 
         if (this.peekNextToken().type === TokenType.COMMA) {
@@ -114,6 +199,46 @@ export class RestQLParser extends Logger {
     return variables
   }
 
+  /**
+   * Extracts a type reference such as `Int`, `String!` or `[Int!]!` from the token sequence.
+   * @returns {string} The type reference
+   * @private
+   */
+  private extractTypeReference (): string {
+    let typeReference: string
+    if (this.peekNextToken().type === TokenType.LEFT_BRACKET) {
+      this.consumeToken(TokenType.LEFT_BRACKET)
+      typeReference = `[${this.extractTypeReference()}]`
+      this.consumeToken(TokenType.RIGHT_BRACKET)
+    } else {
+      typeReference = this.consumeToken(TokenType.IDENTIFIER).value
+    }
+
+    if (this.peekNextToken().type === TokenType.EXCLAMATION) {
+      this.consumeToken(TokenType.EXCLAMATION)
+      typeReference += '!'
+    }
+    return typeReference
+  }
+
+  /**
+   * Checks whether a value contains a variable reference.
+   * @param {ArgumentValue} value - The value to check
+   * @returns {boolean} True if the value references a variable, false otherwise
+   * @private
+   */
+  private containsVariableReference (value: ArgumentValue): boolean {
+    if (isVariableReference(value)) {
+      return true
+    }
+    if (typeof value === 'object' && value !== null) {
+      return Object.values(value).some((item) =>
+        this.containsVariableReference(item)
+      )
+    }
+    return false
+  }
+
   /**
    * Extracts queries from the token sequence.
    * @returns {ParsedQuery[]} The extracted queries
@@ -121,10 +246,18 @@ export class RestQLParser extends Logger {
    */
   private extractQueries (): ParsedQuery[] {
     const queries: ParsedQuery[] = []
+    const responseKeys = new Set<string>()
     this.consumeToken(TokenType.LEFT_BRACE)
 
     while (this.peekNextToken().type !== TokenType.RIGHT_BRACE) {
-      queries.push(this.extractSingleQuery())
+      const position = this.peekNextToken().pos
+      const query = this.extractSingleQuery()
+      this.ensureUniqueResponseKey(
+        responseKeys,
+        query.alias ?? query.queryName,
+        position
+      )
+      queries.push(query)
     }
 
     this.consumeToken(TokenType.RIGHT_BRACE)
@@ -137,46 +270,97 @@ export class RestQLParser extends Logger {
    * @private
    */
   private extractSingleQuery (): ParsedQuery {
-    const queryName = this.consumeToken(TokenType.IDENTIFIER).value
-    let args: { [key: string]: string } = {}
+    const pos = this.peekNextToken().pos
+    const { name: queryName, alias } = this.extractNameWithAlias()
+    let args: { [key: string]: ArgumentValue } = {}
 
     if (this.peekNextToken().type === TokenType.LEFT_PAREN) {
       args = this.extractArguments()
     }
 
-    const fields = this.extractFields()
+    // Mutations returning a scalar have no selection set
+    const { fields, spreads } =
+      this.peekNextToken().type === TokenType.LEFT_BRACE
+        ? this.extractSelectionSet()
+        : { fields: {}, spreads: [] }
 
-    return { queryName, args, fields }
+    const query: ParsedQuery = { queryName, args, fields, pos }
+    if (alias) {
+      query.alias = alias
+    }
+    if (spreads.length > 0) {
+      query.spreads = spreads
+    }
+    return query
+  }
+
+  /**
+   * Extracts a field or query name, optionally preceded by an alias (`alias: name`).
+   * @returns {{ name: string; alias?: string }} The extracted name and alias
+   * @private
+   */
+  private extractNameWithAlias (): { name: string; alias?: string } {
+    const name = this.consumeToken(TokenType.IDENTIFIER).value
+    if (this.peekNextToken().type !== TokenType.COLON) {
+      return { name }
+    }
+
+    this.consumeToken(TokenType.COLON)
+    return { name: this.consumeToken(TokenType.IDENTIFIER).value, alias: name }
   }
 
   /**
-   * Extracts fields from the token sequence.
-   * @returns {{ [key: string]: any }} The extracted fields
+   * Extracts a selection set from the token sequence.
+   * Fields are keyed by their response key, which is the alias if one is given.
+   * Fragment spreads are collected separately and expanded once the whole document is parsed.
+   * @returns {{ fields: { [key: string]: ParsedField }; spreads: FragmentSpread[] }} The extracted fields and spreads
    * @private
    */
-  private extractFields (): { [key: string]: any } {
-    const fields: { [key: string]: any } = {}
+  private extractSelectionSet (): {
+    fields: { [key: string]: ParsedField };
+    spreads: FragmentSpread[];
+  } {
+    const fields: { [key: string]: ParsedField } = {}
+    const spreads: FragmentSpread[] = []
+    const responseKeys = new Set<string>()
     this.consumeToken(TokenType.LEFT_BRACE)
 
     while (this.peekNextToken().type !== TokenType.RIGHT_BRACE) {
-      const fieldName = this.consumeToken(TokenType.IDENTIFIER).value
+      if (this.peekNextToken().type === TokenType.SPREAD) {
+        spreads.push(this.extractFragmentSpread())
+        continue
+      }
+
+      const position = this.peekNextToken().pos
+      const { name: fieldName, alias } = this.extractNameWithAlias()
+      const responseKey = alias ?? fieldName
+      this.ensureUniqueResponseKey(responseKeys, responseKey, position)
 
       let fieldArgs = {}
       if (this.peekNextToken().type === TokenType.LEFT_PAREN) {
         fieldArgs = this.extractArguments()
       }
 
+      const field: ParsedField = { name: fieldName, args: fieldArgs, pos: position }
+      if (alias) {
+        field.alias = alias
+      }
+
+      const directives = this.extractDirectives()
+      if (directives.length > 0) {
+        field.directives = directives
+      }
+
       if (this.peekNextToken().type === TokenType.LEFT_BRACE) {
-        fields[fieldName] = {
-          args: fieldArgs,
-          fields: this.extractFields()
+        const selectionSet = this.extractSelectionSet()
+        field.fields = selectionSet.fields
+        if (selectionSet.spreads.length > 0) {
+          field.spreads = selectionSet.spreads
         }
       } else {
-        fields[fieldName] = {
-          args: fieldArgs,
-          value: true
-        }
+        field.value = true
       }
+      fields[responseKey] = field
 
       if (this.peekNextToken().type === TokenType.COMMA) {
         this.consumeToken(TokenType.COMMA)
@@ -184,16 +368,83 @@ export class RestQLParser extends Logger {
     }
 
     this.consumeToken(TokenType.RIGHT_BRACE)
-    return fields
+    return { fields, spreads }
+  }
+
+  /**
+   * Extracts the directives applied to a field, e.g. `@export(as: "userId")`.
+   * @returns {ParsedDirective[]} The extracted directives
+   * @private
+   */
+  private extractDirectives (): ParsedDirective[] {
+    const directives: ParsedDirective[] = []
+    while (this.peekNextToken().type === TokenType.AT) {
+      const pos = this.consumeToken(TokenType.AT).pos
+      const name = this.consumeToken(TokenType.IDENTIFIER).value
+      const args =
+        this.peekNextToken().type === TokenType.LEFT_PAREN
+          ? this.extractArguments()
+          : {}
+      directives.push({ name, args, pos })
+    }
+    return directives
+  }
+
+  /**
+   * Extracts a named fragment spread (`...Name`) or an inline fragment (`... on Type { ... }`).
+   * @returns {FragmentSpread} The extracted spread
+   * @private
+   */
+  private extractFragmentSpread (): FragmentSpread {
+    const pos = this.consumeToken(TokenType.SPREAD).pos
+    const nextToken = this.peekNextToken()
+
+    if (nextToken.type === TokenType.IDENTIFIER && nextToken.value !== 'on') {
+      return { fragmentName: this.consumeToken(TokenType.IDENTIFIER).value, pos }
+    }
+
+    const spread: FragmentSpread = { pos }
+    if (nextToken.type === TokenType.IDENTIFIER) {
+      this.consumeKeyword('on')
+      spread.typeCondition = this.consumeToken(TokenType.IDENTIFIER).value
+    }
+
+    const { fields, spreads } = this.extractSelectionSet()
+    spread.fields = fields
+    if (spreads.length > 0) {
+      spread.spreads = spreads
+    }
+    return spread
+  }
+
+  /**
+   * Ensures that a response key is only used once within a selection set.
+   * @param {Set<string>} responseKeys - The response keys already used in the selection set
+   * @param {string} responseKey - The response key to register
+   * @param {number} position - The position of the field in the input
+   * @throws {Error} If the response key is already used
+   * @private
+   */
+  private ensureUniqueResponseKey (
+    responseKeys: Set<string>,
+    responseKey: string,
+    position: number
+  ): void {
+    if (responseKeys.has(responseKey)) {
+      const errorMessage = `Duplicate field "${responseKey}" at position ${position}. Use an alias to select the same field more than once.`
+      this.error(errorMessage)
+      throw new Error(errorMessage)
+    }
+    responseKeys.add(responseKey)
   }
 
   /**
    * Extracts arguments from the token sequence.
-   * @returns {{ [key: string]: string }} The extracted arguments
+   * @returns {{ [key: string]: ArgumentValue }} The extracted arguments
    * @private
    */
-  private extractArguments (): { [key: string]: string } {
-    const args: { [key: string]: string } = {}
+  private extractArguments (): { [key: string]: ArgumentValue } {
+    const args: { [key: string]: ArgumentValue } = {}
     this.consumeToken(TokenType.LEFT_PAREN)
 
     while (this.peekNextToken().type !== TokenType.RIGHT_PAREN) {
@@ -212,15 +463,109 @@ export class RestQLParser extends Logger {
   }
 
   /**
-   * Extracts a value from the token sequence.
-   * @returns {string} The extracted value
+   * Extracts a value from the token sequence: a variable reference, a number, a string,
+   * a boolean, null, an enum value, a list literal or an object literal.
+   * @returns {ArgumentValue} The extracted value
    * @private
    */
-  private extractValue (): string {
-    const token = this.consumeToken(TokenType.IDENTIFIER, TokenType.STRING)
-    return token.type === TokenType.IDENTIFIER && token.value.startsWith('$')
-      ? token.value
-      : token.value
+  private extractValue (): ArgumentValue {
+    const token = this.consumeToken(
+      TokenType.IDENTIFIER,
+      TokenType.STRING,
+      TokenType.NUMBER,
+      TokenType.LEFT_BRACKET,
+      TokenType.LEFT_BRACE
+    )
+
+    switch (token.type) {
+      case TokenType.NUMBER:
+        return Number(token.value)
+      case TokenType.STRING:
+        return this.parseStringValue(token)
+      case TokenType.LEFT_BRACKET:
+        return this.extractListValue()
+      case TokenType.LEFT_BRACE:
+        return this.extractObjectValue()
+    }
+
+    if (token.value.startsWith('$')) {
+      return { $variable: token.value.slice(1) }
+    }
+
+    switch (token.value) {
+      case 'true':
+        return true
+      case 'false':
+        return false
+      case 'null':
+        return null
+      default:
+        return token.value
+    }
+  }
+
+  /**
+   * Extracts the items of a list literal, after its opening bracket has been consumed.
+   * @returns {ArgumentValue[]} The extracted list
+   * @private
+   */
+  private extractListValue (): ArgumentValue[] {
+    const items: ArgumentValue[] = []
+
+    while (this.peekNextToken().type !== TokenType.RIGHT_BRACKET) {
+      items.push(this.extractValue())
+
+      if (this.peekNextToken().type === TokenType.COMMA) {
+        this.consumeToken(TokenType.COMMA)
+      }
+    }
+
+    this.consumeToken(TokenType.RIGHT_BRACKET)
+    return items
+  }
+
+  /**
+   * Extracts the fields of an object literal, after its opening brace has been consumed.
+   * @returns {{ [key: string]: ArgumentValue }} The extracted object
+   * @private
+   */
+  private extractObjectValue (): { [key: string]: ArgumentValue } {
+    const objectValue: { [key: string]: ArgumentValue } = {}
+
+    while (this.peekNextToken().type !== TokenType.RIGHT_BRACE) {
+      const fieldToken = this.consumeToken(TokenType.IDENTIFIER)
+      if (fieldToken.value.startsWith('$')) {
+        const errorMessage = `Unexpected variable ${fieldToken.value} as object field name at position ${fieldToken.pos}`
+        this.error(errorMessage)
+        throw new Error(errorMessage)
+      }
+      this.consumeToken(TokenType.COLON)
+      objectValue[fieldToken.value] = this.extractValue()
+
+      if (this.peekNextToken().type === TokenType.COMMA) {
+        this.consumeToken(TokenType.COMMA)
+      }
+    }
+
+    this.consumeToken(TokenType.RIGHT_BRACE)
+    return objectValue
+  }
+
+  /**
+   * Converts a string token into its unquoted, unescaped value.
+   * @param {Token} token - The string token
+   * @returns {string} The string value
+   * @throws {Error} If the string contains an invalid escape sequence
+   * @private
+   */
+  private parseStringValue (token: Token): string {
+    try {
+      return JSON.parse(token.value)
+    } catch (error) {
+      const errorMessage = `Invalid string ${token.value} at position ${token.pos}`
+      this.error(errorMessage)
+      throw new Error(errorMessage)
+    }
   }
 
   /**
@@ -250,6 +595,23 @@ export class RestQLParser extends Logger {
     return token
   }
 
+  /**
+   * Consumes an identifier token that must match the given keyword.
+   * @param {string} keyword - The expected keyword
+   * @returns {Token} The consumed token
+   * @throws {Error} If the next token is not the keyword
+   * @private
+   */
+  private consumeKeyword (keyword: string): Token {
+    const token = this.consumeToken(TokenType.IDENTIFIER)
+    if (token.value !== keyword) {
+      const errorMessage = `Unexpected token: ${token.value} at position ${token.pos}. Expected: ${keyword}`
+      this.error(errorMessage)
+      throw new Error(errorMessage)
+    }
+    return token
+  }
+
   /**
    * Peeks at the next token in the sequence without consuming it.
    * @returns {Token} The next token or an EOF token if the end is reached
@@ -4,7 +4,14 @@ import {
   SchemaResource,
   ValueType,
   SchemaField,
-  HttpMethod
+  HttpMethod,
+  Endpoint,
+  EndpointArgument,
+  BatchPolicy,
+  PaginationPolicy,
+  TimeoutPolicy,
+  ResolvePolicy,
+  ArgumentLocation
 } from '../types'
 
 /**
@@ -16,6 +23,8 @@ export class SDLParser extends Logger {
   private currentPosition: number
   private parsedSchema: Schema
   private currentTypeDefinition: SchemaResource | ValueType | null
+  private currentEndpoint: Endpoint | null
+  private currentMutationName: string | null
 
   /**
    * Creates an instance of SDLParser.
@@ -27,6 +36,8 @@ export class SDLParser extends Logger {
     this.currentPosition = 0
     this.parsedSchema = { _types: {} }
     this.currentTypeDefinition = null
+    this.currentEndpoint = null
+    this.currentMutationName = null
   }
 
   /**
@@ -51,6 +62,14 @@ export class SDLParser extends Logger {
         ) {
           this.log('Parsing type')
           this.parseTypeDefinition()
+        } else if (
+          this.sdlInput.slice(
+            this.currentPosition,
+            this.currentPosition + 5
+          ) === 'input'
+        ) {
+          this.log('Parsing input type')
+          this.parseInputTypeDefinition()
         } else if (this.currentPosition < this.sdlInput.length) {
           const errorMsg = `Unexpected character at position ${
             this.currentPosition
@@ -79,6 +98,12 @@ export class SDLParser extends Logger {
     this.skipWhitespace()
     this.expectToken('{')
 
+    if (typeName === 'Mutation') {
+      this.parseMutationTypeBody()
+      this.expectToken('}')
+      return
+    }
+
     this.currentTypeDefinition = {
       fields: {},
       endpoints: {},
@@ -103,6 +128,34 @@ export class SDLParser extends Logger {
     }
 
     this.currentTypeDefinition = null
+    this.currentEndpoint = null
+  }
+
+  /**
+   * Parses an input type definition in the SDL.
+   * Input types describe the shape of variables and are stored alongside nested types.
+   * @private
+   */
+  private parseInputTypeDefinition (): void {
+    this.expectToken('input')
+    this.skipWhitespace()
+    const typeName = this.parseIdentifier()
+    this.skipWhitespace()
+    this.expectToken('{')
+
+    this.currentTypeDefinition = { fields: {} }
+
+    while (this.currentPosition < this.sdlInput.length) {
+      this.skipWhitespace()
+      if (this.peekNextChar() === '}') {
+        break
+      }
+      this.parseField()
+    }
+    this.expectToken('}')
+
+    this.parsedSchema._types[typeName] = this.currentTypeDefinition
+    this.currentTypeDefinition = null
   }
 
   /**
@@ -119,6 +172,8 @@ export class SDLParser extends Logger {
         const directive = this.parseDirective()
         if (directive.type === 'transform' && this.currentTypeDefinition) {
           this.currentTypeDefinition.transform = directive.value
+        } else if (directive.type === 'key' && this.currentTypeDefinition) {
+          this.currentTypeDefinition.key = directive.value
         }
       } else {
         this.parseField()
@@ -126,6 +181,78 @@ export class SDLParser extends Logger {
     }
   }
 
+  /**
+   * Parses the body of the `Mutation` type. Each field declares a mutation with its
+   * arguments, return type and the `@endpoint` it is sent to:
+   * `archiveUser(id: ID!): User @endpoint(POST, "/users/{id}/archive", "data")`
+   * @private
+   */
+  private parseMutationTypeBody (): void {
+    while (this.currentPosition < this.sdlInput.length) {
+      this.skipWhitespace()
+      if (this.peekNextChar() === '}') {
+        break
+      }
+
+      const mutationName = this.parseIdentifier()
+      this.skipWhitespace()
+      const argDefinitions = []
+      if (this.peekNextChar() === '(') {
+        this.expectToken('(')
+        this.skipWhitespace()
+        while (this.peekNextChar() !== ')') {
+          argDefinitions.push(this.parseArgumentDefinition())
+          if (this.peekNextChar() === ',') {
+            this.expectToken(',')
+            this.skipWhitespace()
+          }
+        }
+        this.expectToken(')')
+      }
+      this.expectToken(':')
+      this.skipWhitespace()
+      const { fieldType, isNullable } = this.parseFieldType()
+      this.skipWhitespace()
+
+      this.currentMutationName = mutationName
+      let endpoint: Endpoint | null = null
+      while (this.peekNextChar() === '@') {
+        const directive = this.parseDirective()
+        if (directive.type === 'endpoint') {
+          if (endpoint) {
+            const errorMsg = `Mutation ${mutationName} must declare a single @endpoint. Context: ${this.getErrorContext()}`
+            this.error(errorMsg)
+            throw new Error(errorMsg)
+          }
+          endpoint = this.currentEndpoint
+        }
+        this.skipWhitespace()
+      }
+      this.currentMutationName = null
+      this.currentEndpoint = null
+
+      if (!endpoint) {
+        const errorMsg = `Mutation ${mutationName} must declare an @endpoint. Context: ${this.getErrorContext()}`
+        this.error(errorMsg)
+        throw new Error(errorMsg)
+      }
+
+      // Arguments declared with @arg keep their explicit location
+      const declaredArgs = endpoint.args ?? {}
+      for (const { argName, type, isNullable: isArgNullable, defaultValue } of argDefinitions) {
+        declaredArgs[argName] =
+          declaredArgs[argName] ??
+          this.createEndpointArgument(endpoint, argName, type, isArgNullable, defaultValue)
+      }
+      endpoint.args = declaredArgs
+
+      this.parsedSchema._mutations = {
+        ...this.parsedSchema._mutations,
+        [mutationName]: { type: fieldType, isNullable, endpoint }
+      }
+    }
+  }
+
   /**
    * Parses a field definition within a type.
    * @private
@@ -147,6 +274,11 @@ export class SDLParser extends Logger {
         field.from = directive.value
       } else if (directive.type === 'transform') {
         field.transform = directive.value
+      } else if (directive.type === 'resolve') {
+        field.resolve = directive.options as ResolvePolicy
+      } else if (directive.type === 'key' && this.currentTypeDefinition) {
+        // `@key` only applies to types, even when written right after the last field
+        this.currentTypeDefinition.key = directive.value
       }
     }
 
@@ -213,16 +345,20 @@ export class SDLParser extends Logger {
 
   /**
    * Parses a directive in the SDL.
-   * @returns {{ type: string; value: string }} The parsed directive
+   * @returns {{ type: string; value: string; options?: { [key: string]: any } }} The parsed directive, with the named arguments of field directives taking them
    * @private
    */
-  private parseDirective (): { type: string; value: string } {
+  private parseDirective (): { type: string; value: string; options?: { [key: string]: any } } {
     this.expectToken('@')
     const directiveName = this.parseIdentifier()
     this.skipWhitespace()
     this.expectToken('(')
 
-    if (directiveName === 'from' || directiveName === 'transform') {
+    if (
+      directiveName === 'from' ||
+      directiveName === 'transform' ||
+      directiveName === 'key'
+    ) {
       const value = this.parseString()
       this.expectToken(')')
       return { type: directiveName, value }
@@ -242,13 +378,77 @@ export class SDLParser extends Logger {
         this.currentTypeDefinition &&
         'endpoints' in this.currentTypeDefinition
       ) {
-        this.currentTypeDefinition.endpoints[method] = { method, path }
-        this.currentTypeDefinition.dataPath = dataPath
+        this.currentEndpoint = { method, path, dataPath }
+        this.currentTypeDefinition.endpoints[method] = this.currentEndpoint
+      } else if (this.currentMutationName) {
+        this.currentEndpoint = { method, path, dataPath }
       } else {
         this.warn('No current resource to add endpoint to')
       }
 
       return { type: 'endpoint', value: '' }
+    } else if (directiveName === 'retry') {
+      const retryArgs = this.parseNamedArguments()
+      this.expectToken(')')
+      this.requireCurrentEndpoint('retry').retry = retryArgs
+
+      return { type: 'retry', value: '' }
+    } else if (directiveName === 'batch') {
+      const batchArgs = this.parseNamedArguments()
+      this.expectToken(')')
+      this.requireCurrentEndpoint('batch').batch = batchArgs as BatchPolicy
+
+      return { type: 'batch', value: '' }
+    } else if (directiveName === 'paginate') {
+      const paginateArgs = this.parseNamedArguments()
+      this.expectToken(')')
+      this.requireCurrentEndpoint('paginate').paginate = paginateArgs as PaginationPolicy
+
+      return { type: 'paginate', value: '' }
+    } else if (directiveName === 'timeout') {
+      const timeoutArgs = this.parseNamedArguments()
+      this.expectToken(')')
+      this.requireCurrentEndpoint('timeout').timeout = timeoutArgs as TimeoutPolicy
+
+      return { type: 'timeout', value: '' }
+    } else if (directiveName === 'resolve') {
+      const options = this.parseNamedArguments()
+      this.expectToken(')')
+
+      return { type: 'resolve', value: '', options }
+    } else if (directiveName === 'cache') {
+      const cachePolicy = this.parseNamedArguments()
+      this.expectToken(')')
+
+      if (!this.currentTypeDefinition || !('endpoints' in this.currentTypeDefinition)) {
+        const errorMsg = `@cache must be declared in a type definition. Context: ${this.getErrorContext()}`
+        this.error(errorMsg)
+        throw new Error(errorMsg)
+      }
+      this.currentTypeDefinition.cache = cachePolicy
+
+      return { type: 'cache', value: '' }
+    } else if (directiveName === 'invalidates') {
+      const targets = [this.parseString()]
+      this.skipWhitespace()
+      while (this.peekNextChar() === ',') {
+        this.expectToken(',')
+        this.skipWhitespace()
+        targets.push(this.parseString())
+        this.skipWhitespace()
+      }
+      this.expectToken(')')
+      const endpoint = this.requireCurrentEndpoint('invalidates')
+      endpoint.invalidates = [...(endpoint.invalidates ?? []), ...targets]
+
+      return { type: 'invalidates', value: '' }
+    } else if (directiveName === 'arg') {
+      const endpoint = this.requireCurrentEndpoint('arg')
+      const { argName, argument } = this.parseEndpointArgument(endpoint)
+      this.expectToken(')')
+      endpoint.args = { ...endpoint.args, [argName]: argument }
+
+      return { type: 'arg', value: '' }
     }
 
     const errorMsg = `Unknown directive: @${directiveName}`
@@ -256,6 +456,188 @@ export class SDLParser extends Logger {
     throw new Error(errorMsg)
   }
 
+  /**
+   * Retrieves the endpoint declared by the preceding `@endpoint` directive, which a directive modifies.
+   * @param {string} directiveName - The name of the directive modifying the endpoint
+   * @returns {Endpoint} The current endpoint
+   * @throws {Error} If the directive does not follow an `@endpoint` directive
+   * @private
+   */
+  private requireCurrentEndpoint (directiveName: string): Endpoint {
+    if (!this.currentEndpoint) {
+      const errorMsg = `@${directiveName} must follow an @endpoint directive. Context: ${this.getErrorContext()}`
+      this.error(errorMsg)
+      throw new Error(errorMsg)
+    }
+    return this.currentEndpoint
+  }
+
+  /**
+   * Parses the body of an `@arg` directive, e.g. `id: Int!, in: PATH` or `limit: Int = 10`.
+   * @param {Endpoint} endpoint - The endpoint the argument belongs to
+   * @returns {{ argName: string; argument: EndpointArgument }} The parsed argument
+   * @private
+   */
+  private parseEndpointArgument (endpoint: Endpoint): {
+    argName: string;
+    argument: EndpointArgument;
+  } {
+    const { argName, type, isNullable, defaultValue } = this.parseArgumentDefinition()
+
+    let options: { [key: string]: any } = {}
+    if (this.peekNextChar() === ',') {
+      this.expectToken(',')
+      options = this.parseNamedArguments()
+    }
+
+    const { in: location, ...unknownOptions } = options
+    if (Object.keys(unknownOptions).length > 0) {
+      const errorMsg = `Unknown @arg options ${Object.keys(unknownOptions).join(
+        ', '
+      )}. Context: ${this.getErrorContext()}`
+      this.error(errorMsg)
+      throw new Error(errorMsg)
+    }
+
+    return {
+      argName,
+      argument: this.createEndpointArgument(
+        endpoint,
+        argName,
+        type,
+        isNullable,
+        defaultValue,
+        location
+      )
+    }
+  }
+
+  /**
+   * Parses an argument definition with an optional default value, e.g. `limit: Int = 10`.
+   * @returns {{ argName: string; type: string; isNullable: boolean; defaultValue?: any }} The parsed definition
+   * @private
+   */
+  private parseArgumentDefinition (): {
+    argName: string;
+    type: string;
+    isNullable: boolean;
+    defaultValue?: any;
+  } {
+    const argName = this.parseIdentifier()
+    this.expectToken(':')
+    this.skipWhitespace()
+    const { fieldType, isNullable } = this.parseFieldType()
+    this.skipWhitespace()
+
+    let defaultValue: any
+    if (this.peekNextChar() === '=') {
+      this.expectToken('=')
+      this.skipWhitespace()
+      defaultValue = this.parseLiteral()
+      this.skipWhitespace()
+    }
+
+    return { argName, type: fieldType, isNullable, defaultValue }
+  }
+
+  /**
+   * Creates an endpoint argument. Without an explicit location, arguments named in the
+   * path template go to the path, and the others go to the query string for GET
+   * endpoints and to the body otherwise.
+   * @param {Endpoint} endpoint - The endpoint the argument belongs to
+   * @param {string} argName - The name of the argument
+   * @param {string} type - The type of the argument
+   * @param {boolean} isNullable - Whether the argument is nullable
+   * @param {any} defaultValue - The default value of the argument, if any
+   * @param {ArgumentLocation} [location] - The explicit location of the argument
+   * @returns {EndpointArgument} The endpoint argument
+   * @private
+   */
+  private createEndpointArgument (
+    endpoint: Endpoint,
+    argName: string,
+    type: string,
+    isNullable: boolean,
+    defaultValue: any,
+    location?: ArgumentLocation
+  ): EndpointArgument {
+    let defaultLocation = ArgumentLocation.BODY
+    if (endpoint.path.includes(`{${argName}}`)) {
+      defaultLocation = ArgumentLocation.PATH
+    } else if (endpoint.method === HttpMethod.GET) {
+      defaultLocation = ArgumentLocation.QUERY
+    }
+
+    const argument: EndpointArgument = {
+      type,
+      isRequired: !isNullable && defaultValue === undefined,
+      in: location ?? defaultLocation
+    }
+    if (defaultValue !== undefined) {
+      argument.defaultValue = defaultValue
+    }
+    return argument
+  }
+
+  /**
+   * Parses a comma-separated list of named directive arguments, e.g. `maxRetries: 5, idempotent: true`.
+   * @returns {{ [key: string]: any }} The parsed arguments keyed by name
+   * @private
+   */
+  private parseNamedArguments (): { [key: string]: any } {
+    const args: { [key: string]: any } = {}
+    this.skipWhitespace()
+    while (this.peekNextChar() !== ')' && this.peekNextChar() !== '}') {
+      const argName = this.parseIdentifier()
+      this.expectToken(':')
+      this.skipWhitespace()
+      args[argName] = this.parseLiteral()
+      this.skipWhitespace()
+      if (this.peekNextChar() === ',') {
+        this.expectToken(',')
+        this.skipWhitespace()
+      }
+    }
+    return args
+  }
+
+  /**
+   * Parses a literal value: a string, number, boolean, null, bare identifier or an object of named literals.
+   * @returns {any} The parsed value
+   * @private
+   */
+  private parseLiteral (): any {
+    if (this.peekNextChar() === '"') {
+      return this.parseString()
+    }
+    if (this.peekNextChar() === '{') {
+      this.expectToken('{')
+      const value = this.parseNamedArguments()
+      this.expectToken('}')
+      return value
+    }
+
+    const numberMatch = /^-?\d+(\.\d+)?([eE][+-]?\d+)?/.exec(
+      this.sdlInput.slice(this.currentPosition)
+    )
+    if (numberMatch) {
+      this.currentPosition += numberMatch[0].length
+      return Number(numberMatch[0])
+    }
+
+    const identifier = this.parseIdentifier()
+    switch (identifier) {
+      case 'true':
+        return true
+      case 'false':
+        return false
+      case 'null':
+        return null
+      default:
+        return identifier
+    }
+  }
+
   /**
    * Parses a string literal.
    * @returns {string} The parsed string
@@ -43,20 +43,37 @@ export class Tokenizer extends Logger {
         case '}':
           tokenList.push(this.createToken(TokenType.RIGHT_BRACE, '}'))
           break
+        case '[':
+          tokenList.push(this.createToken(TokenType.LEFT_BRACKET, '['))
+          break
+        case ']':
+          tokenList.push(this.createToken(TokenType.RIGHT_BRACKET, ']'))
+          break
         case ':':
           tokenList.push(this.createToken(TokenType.COLON, ':'))
           break
         case ',':
           tokenList.push(this.createToken(TokenType.COMMA, ','))
           break
+        case '=':
+          tokenList.push(this.createToken(TokenType.EQUALS, '='))
+          break
         case '"':
           tokenList.push(this.extractStringToken())
           break
         case '!':
           tokenList.push(this.createToken(TokenType.EXCLAMATION, '!'))
           break
+        case '.':
+          tokenList.push(this.extractSpreadToken())
+          break
+        case '@':
+          tokenList.push(this.createToken(TokenType.AT, '@'))
+          break
         default:
-          if (this.isAlphanumericOrSpecial(currentChar)) {
+          if (this.isNumberStart(currentChar)) {
+            tokenList.push(this.extractNumberToken())
+          } else if (this.isIdentifierStart(currentChar)) {
             tokenList.push(this.extractIdentifierToken())
           } else if (this.isWhitespace(currentChar)) {
             this.currentPosition++
@@ -87,6 +104,21 @@ export class Tokenizer extends Logger {
     return token
   }
 
+  /**
+   * Extracts a spread token (`...`) from the input.
+   * @returns {Token} The extracted spread token
+   * @throws {ValidationError} If the dots do not form a spread
+   * @private
+   */
+  private extractSpreadToken (): Token {
+    if (this.inputString.slice(this.currentPosition, this.currentPosition + 3) !== '...') {
+      const errorMsg = `Unexpected character: . at position ${this.currentPosition}. Expected: ...`
+      this.error(errorMsg)
+      throw new ValidationError(errorMsg)
+    }
+    return this.createToken(TokenType.SPREAD, '...')
+  }
+
   /**
    * Extracts a string token from the input.
    * @returns {Token} The extracted string token
@@ -113,6 +145,36 @@ export class Tokenizer extends Logger {
     return { type: TokenType.STRING, value, pos: startPosition }
   }
 
+  /**
+   * Extracts a number token (integer or float) from the input.
+   * @returns {Token} The extracted number token
+   * @throws {ValidationError} If the number is malformed
+   * @private
+   */
+  private extractNumberToken (): Token {
+    const startPosition = this.currentPosition
+    const numberMatch = /^-?(0|[1-9]\d*)(\.\d+)?([eE][+-]?\d+)?/.exec(
+      this.inputString.slice(startPosition)
+    )
+    const endPosition = startPosition + (numberMatch ? numberMatch[0].length : 0)
+
+    if (
+      !numberMatch ||
+      (endPosition < this.inputString.length &&
+        /[a-zA-Z0-9_$.]/.test(this.inputString[endPosition]))
+    ) {
+      const errorMsg = `Invalid number at position ${startPosition}`
+      this.error(errorMsg)
+      throw new ValidationError(errorMsg)
+    }
+
+    this.currentPosition = endPosition
+    this.log(
+      `Extracted number token: ${numberMatch[0]} at position ${startPosition}`
+    )
+    return { type: TokenType.NUMBER, value: numberMatch[0], pos: startPosition }
+  }
+
   /**
    * Extracts an identifier token from the input.
    * @returns {Token} The extracted identifier token
@@ -133,6 +195,26 @@ export class Tokenizer extends Logger {
     return { type: TokenType.IDENTIFIER, value, pos: startPosition }
   }
 
+  /**
+   * Checks if a character can start a number.
+   * @param {string} char - The character to check
+   * @returns {boolean} True if the character is a digit or a minus sign, false otherwise
+   * @private
+   */
+  private isNumberStart (char: string): boolean {
+    return /[0-9-]/.test(char)
+  }
+
+  /**
+   * Checks if a character can start an identifier.
+   * @param {string} char - The character to check
+   * @returns {boolean} True if the character is a letter or a special character ($, _), false otherwise
+   * @private
+   */
+  private isIdentifierStart (char: string): boolean {
+    return /[a-zA-Z_$]/.test(char)
+  }
+
   /**
    * Checks if a character is alphanumeric or a special character ($, _).
    * @param {string} char - The character to check
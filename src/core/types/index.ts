@@ -7,20 +7,29 @@ export enum HttpMethod {
 }
 
 export interface Schema {
-  [key: string]: SchemaResource;
+  [key: string]: SchemaResource | Schema['_types'] | Schema['_mutations'];
   _types: { [key: string]: ValueType };
+  _mutations?: { [key: string]: MutationDefinition };
+}
+
+export interface MutationDefinition {
+  type: string;
+  isNullable: boolean;
+  endpoint: Endpoint;
 }
 
 export interface SchemaResource {
   fields: { [key: string]: SchemaField };
   endpoints: { [key: string]: Endpoint };
-  dataPath?: string;
   transform?: string;
+  key?: string;
+  cache?: CachePolicy;
 }
 
 export interface ValueType {
   fields: { [key: string]: SchemaField };
   transform?: string;
+  key?: string;
 }
 
 export interface SchemaField {
@@ -28,11 +37,97 @@ export interface SchemaField {
   isNullable: boolean;
   from?: string;
   transform?: string;
+  resolve?: ResolvePolicy;
+}
+
+export interface ResolvePolicy {
+  args: { [key: string]: any };
 }
 
 export interface Endpoint {
   method: HttpMethod;
   path: string;
+  dataPath?: string;
+  retry?: RetryPolicy;
+  batch?: BatchPolicy;
+  paginate?: PaginationPolicy;
+  timeout?: TimeoutPolicy;
+  args?: { [key: string]: EndpointArgument };
+  invalidates?: string[];
+}
+
+export enum ArgumentLocation {
+  PATH = 'PATH',
+  QUERY = 'QUERY',
+  HEADER = 'HEADER',
+  BODY = 'BODY',
+}
+
+export interface EndpointArgument {
+  type: string;
+  isRequired: boolean;
+  in: ArgumentLocation;
+  defaultValue?: any;
+}
+
+export type RequestArguments = {
+  [location in ArgumentLocation]: { [key: string]: any };
+};
+
+export interface CachePolicy {
+  ttl?: number;
+  swr?: number;
+}
+
+export type FetchPolicy =
+  | 'cache-first'
+  | 'network-only'
+  | 'cache-only'
+  | 'cache-and-network';
+
+export interface RetryPolicy {
+  maxRetries?: number;
+  retryDelay?: number;
+  idempotent?: boolean;
+}
+
+export interface BatchPolicy {
+  param: string;
+  key: string;
+  field?: string;
+  path?: string;
+  separator?: string;
+  maxBatchSize?: number;
+}
+
+export enum PaginationStrategy {
+  CURSOR = 'CURSOR',
+  OFFSET = 'OFFSET',
+  PAGE = 'PAGE',
+  LINK_HEADER = 'LINK_HEADER',
+}
+
+export interface PaginationPolicy {
+  strategy: PaginationStrategy;
+  param?: string;
+  sizeParam?: string;
+  pageSize?: number;
+  cursorPath?: string;
+  maxPages?: number;
+}
+
+export interface TimeoutPolicy {
+  ms: number;
+}
+
+export interface PageInfo {
+  hasNextPage: boolean;
+  endCursor: string | null;
+}
+
+export interface Connection<T> {
+  items: T[];
+  pageInfo: PageInfo;
 }
 
 export interface BaseUrls {
@@ -45,21 +140,117 @@ export interface RestQLOptions {
   headers?: { [key: string]: string };
   maxRetries?: number;
   retryDelay?: number;
+  maxRetryDelay?: number;
   batchInterval?: number;
   maxBatchSize?: number;
+  normalizedCache?: boolean;
+  cacheStore?: CacheStore;
+  maxCacheEntries?: number;
+  maxCacheBytes?: number;
+  cacheSweepInterval?: number;
+  cacheRevalidationWindow?: number;
+  timeout?: number;
+  middleware?: Middleware[];
+}
+
+export interface ExecuteOptions {
+  useCache?: boolean;
+  fetchPolicy?: FetchPolicy;
+  parallel?: boolean;
+  signal?: AbortSignal;
+  timeout?: number;
+}
+
+export interface IterateOptions {
+  signal?: AbortSignal;
+}
+
+export interface ExecutionContext {
+  operationName?: string;
+  resourceName?: string;
+  signal?: AbortSignal;
+}
+
+export interface RequestContext {
+  method: HttpMethod;
+  url: string;
+  headers: { [key: string]: string };
+  body?: string;
+  resourceName: string;
+  operationName?: string;
+  attempt: number;
+  signal: AbortSignal;
 }
 
+export type Middleware = (context: RequestContext, next: () => Promise<Response>) => Promise<Response>;
+
 export interface ParsedOperation {
   operationType: 'query' | 'mutation';
   operationName: string;
-  variables: { [key: string]: { type: string } };
+  variables: { [key: string]: VariableDefinition };
   queries: ParsedQuery[];
+  fragments: { [key: string]: FragmentDefinition };
+}
+
+export interface VariableDefinition {
+  type: string;
+  isRequired: boolean;
+  defaultValue?: ArgumentValue;
 }
 
 export interface ParsedQuery {
   queryName: string;
-  args: { [key: string]: string };
-  fields: { [key: string]: any };
+  alias?: string;
+  args: { [key: string]: ArgumentValue };
+  fields: { [key: string]: ParsedField };
+  spreads?: FragmentSpread[];
+  pos?: number;
+}
+
+export interface ParsedField {
+  name: string;
+  alias?: string;
+  args: { [key: string]: ArgumentValue };
+  fields?: { [key: string]: ParsedField };
+  spreads?: FragmentSpread[];
+  directives?: ParsedDirective[];
+  value?: boolean;
+  pos?: number;
+}
+
+export interface ParsedDirective {
+  name: string;
+  args: { [key: string]: ArgumentValue };
+  pos: number;
+}
+
+export interface VariableReference {
+  $variable: string;
+}
+
+export type ArgumentValue =
+  | string
+  | number
+  | boolean
+  | null
+  | VariableReference
+  | ArgumentValue[]
+  | { [key: string]: ArgumentValue };
+
+export interface FragmentDefinition {
+  name: string;
+  typeCondition: string;
+  fields: { [key: string]: ParsedField };
+  spreads?: FragmentSpread[];
+  pos: number;
+}
+
+export interface FragmentSpread {
+  fragmentName?: string;
+  typeCondition?: string;
+  fields?: { [key: string]: ParsedField };
+  spreads?: FragmentSpread[];
+  pos: number;
 }
 
 export type VariableValues = { [key: string]: any };
@@ -69,11 +260,17 @@ export enum TokenType {
   RIGHT_PAREN,
   LEFT_BRACE,
   RIGHT_BRACE,
+  LEFT_BRACKET,
+  RIGHT_BRACKET,
   COLON,
   COMMA,
+  EQUALS,
   STRING,
+  NUMBER,
   IDENTIFIER,
   EXCLAMATION,
+  SPREAD,
+  AT,
   EOF,
 }
 
@@ -95,17 +292,95 @@ export interface BatchRequest {
   reject: (reason: any) => void;
 }
 
+export interface EntityReference {
+  __ref: string;
+}
+
 export interface CacheItem<T> {
   data: T;
   expiry: number;
+  staleExpiry?: number;
+  revalidationExpiry?: number;
+  tags?: string[];
+  validators?: HttpCacheValidators;
+}
+
+export interface CacheSetOptions {
+  staleWhileRevalidate?: number;
+  validators?: HttpCacheValidators;
+}
+
+export interface HttpCacheValidators {
+  etag?: string;
+  lastModified?: string;
+}
+
+export interface HttpCacheInfo {
+  notModified: boolean;
+  validators: HttpCacheValidators;
+  maxAge?: number;
+  noStore: boolean;
+}
+
+export interface CacheStore {
+  get<T>(key: string): Promise<CacheItem<T> | undefined>;
+  set<T>(key: string, item: CacheItem<T>): Promise<string[] | void>;
+  delete(key: string): Promise<void>;
+  keys(): Promise<string[]>;
+}
+
+export interface CacheLimits {
+  maxEntries?: number;
+  maxBytes?: number;
+  revalidationWindow?: number;
+}
+
+export interface CacheStats {
+  entries: number;
+  bytes: number;
+  hits: number;
+  misses: number;
+  evictions: number;
+  expirations: number;
+}
+
+export interface ValidationErrorDetail {
+  message: string;
+  pos?: number;
 }
 
 export interface RestQLExecutorOptions {
   baseUrls: BaseUrls;
   headers: { [key: string]: string };
+  maxRetries?: number;
+  retryDelay?: number;
+  maxRetryDelay?: number;
+  maxBatchSize?: number;
+  timeout?: number;
+  middleware?: Middleware[];
 }
 
 export interface BatchManagerOptions {
   batchInterval: number;
   maxBatchSize?: number;
 }
+
+export interface BatchLoad<I, T> {
+  loadBatch: (items: I[], signal: AbortSignal) => Promise<Array<T | Error>>;
+  requests: Array<BatchLoadRequest<I, T>>;
+  timer: ReturnType<typeof setTimeout>;
+  controller: AbortController;
+}
+
+export interface BatchLoadRequest<I, T> {
+  item: I;
+  resolve: (value: T) => void;
+  reject: (reason?: any) => void;
+  signal?: AbortSignal;
+}
+
+export interface InFlightRequest<T> {
+  promise: Promise<T>;
+  controller: AbortController;
+  signals: Array<AbortSignal | undefined>;
+}
@@ -0,0 +1,69 @@
+import { AbortError, RestQLError, TimeoutError } from '../validation/errors'
+
+/**
+ * Creates a signal aborted when the given signal is aborted or once the timeout elapses.
+ * The abort reason is an AbortError or a TimeoutError, unless the given signal was already
+ * aborted with a RestQLError, which is kept so an operation timeout is reported as such by its requests.
+ * @param {AbortSignal | undefined} signal - The signal to follow
+ * @param {number | undefined} timeout - The timeout in milliseconds, none if undefined or infinite
+ * @param {string} description - What is aborted, e.g. `Request to https://api.example.com/users`
+ * @returns {{ signal: AbortSignal; clear: () => void }} The signal and a function releasing its timer and listener
+ */
+export function createAbortScope (
+  signal: AbortSignal | undefined,
+  timeout: number | undefined,
+  description: string
+): { signal: AbortSignal; clear: () => void } {
+  const controller = new AbortController()
+  const onAbort = () => {
+    controller.abort(
+      signal?.reason instanceof RestQLError
+        ? signal.reason
+        : new AbortError(`${description} was aborted`)
+    )
+  }
+  if (signal?.aborted) {
+    onAbort()
+  } else {
+    signal?.addEventListener('abort', onAbort, { once: true })
+  }
+
+  const timer = timeout !== undefined && Number.isFinite(timeout)
+    ? setTimeout(() => {
+      controller.abort(new TimeoutError(`${description} timed out after ${timeout}ms`))
+    }, timeout)
+    : undefined
+
+  return {
+    signal: controller.signal,
+    clear: () => {
+      clearTimeout(timer)
+      signal?.removeEventListener('abort', onAbort)
+    }
+  }
+}
+
+/**
+ * Waits for a promise unless the signal is aborted first, in which case it rejects with the abort reason.
+ * The promise itself keeps running.
+ * @template T
+ * @param {Promise<T>} promise - The promise to wait for
+ * @param {AbortSignal} [signal] - The signal to follow
+ * @returns {Promise<T>} The result of the promise
+ */
+export function raceWithSignal<T> (promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) {
+    return promise
+  }
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(signal.reason)
+    if (signal.aborted) {
+      onAbort()
+    } else {
+      signal.addEventListener('abort', onAbort, { once: true })
+    }
+    promise.then(resolve, reject).finally(() => {
+      signal.removeEventListener('abort', onAbort)
+    })
+  })
+}
@@ -0,0 +1,54 @@
+import { ArgumentValue, VariableReference, VariableValues } from '../types'
+
+/**
+ * Checks whether a parsed argument value is a reference to an operation variable.
+ * @param {ArgumentValue} value - The parsed argument value
+ * @returns {boolean} True if the value is a variable reference, false otherwise
+ */
+export function isVariableReference (
+  value: ArgumentValue | undefined
+): value is VariableReference {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    !Array.isArray(value) &&
+    typeof value.$variable === 'string'
+  )
+}
+
+/**
+ * Resolves variable references within a parsed argument value, including those
+ * nested in list and object literals. References to variables that are not
+ * provided resolve to undefined and are dropped from object literals.
+ * @param {ArgumentValue} value - The parsed argument value
+ * @param {VariableValues} variables - The variable values of the operation
+ * @returns {any} The resolved value
+ */
+export function resolveArgumentValue (
+  value: ArgumentValue,
+  variables: VariableValues
+): any {
+  if (isVariableReference(value)) {
+    return variables[value.$variable]
+  }
+
+  if (Array.isArray(value)) {
+    return value.map((item) => {
+      const resolvedItem = resolveArgumentValue(item, variables)
+      return resolvedItem === undefined ? null : resolvedItem
+    })
+  }
+
+  if (typeof value === 'object' && value !== null) {
+    const resolvedObject: { [key: string]: any } = {}
+    for (const [key, fieldValue] of Object.entries(value)) {
+      const resolvedField = resolveArgumentValue(fieldValue, variables)
+      if (resolvedField !== undefined) {
+        resolvedObject[key] = resolvedField
+      }
+    }
+    return resolvedObject
+  }
+
+  return value
+}
@@ -0,0 +1,27 @@
+import { ParsedField } from '../types'
+
+/**
+ * Reads the variable name a field is exported as through `@export(as: "name")`.
+ * @param {ParsedField} field - The parsed field
+ * @returns {string | undefined} The exported variable name or undefined if the field is not exported
+ */
+export function getExportName (field: ParsedField): string | undefined {
+  const exportDirective = field.directives?.find(({ name }) => name === 'export')
+  const exportName = exportDirective?.args.as
+  return typeof exportName === 'string' ? exportName : undefined
+}
+
+/**
+ * Collects the names of all variables exported within a selection set, including nested ones.
+ * @param {{ [key: string]: ParsedField }} fields - The selected fields
+ * @returns {string[]} The exported variable names
+ */
+export function getExportedVariableNames (fields: {
+  [key: string]: ParsedField;
+}): string[] {
+  return Object.values(fields).flatMap((field) => {
+    const exportName = getExportName(field)
+    const nestedNames = field.fields ? getExportedVariableNames(field.fields) : []
+    return exportName ? [exportName, ...nestedNames] : nestedNames
+  })
+}
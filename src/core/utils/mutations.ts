@@ -0,0 +1,25 @@
+import { HttpMethod } from '../types'
+
+const MUTATION_PREFIXES: { [prefix: string]: HttpMethod } = {
+  create: HttpMethod.POST,
+  update: HttpMethod.PUT,
+  patch: HttpMethod.PATCH,
+  delete: HttpMethod.DELETE
+}
+
+/**
+ * Infers the HTTP method and the target resource of a mutation from its name,
+ * e.g. `createUser` is a POST to the User resource.
+ * @param {string} mutationName - The name of the mutation
+ * @returns {{ method: HttpMethod; resourceName: string } | null} The inferred target or null if the name has no known prefix
+ */
+export function parseMutationName (
+  mutationName: string
+): { method: HttpMethod; resourceName: string } | null {
+  for (const [prefix, method] of Object.entries(MUTATION_PREFIXES)) {
+    if (mutationName.toLowerCase().startsWith(prefix)) {
+      return { method, resourceName: mutationName.slice(prefix.length) }
+    }
+  }
+  return null
+}
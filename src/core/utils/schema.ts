@@ -0,0 +1,43 @@
+import { Schema, SchemaResource } from '../types'
+
+const RESERVED_SCHEMA_KEYS = ['_types', '_mutations']
+
+/**
+ * The built-in scalar types, accepted as field, return and argument types.
+ */
+export const SCALAR_TYPES = ['Boolean', 'String', 'Int', 'Float', 'ID']
+
+/**
+ * Retrieves a top-level resource of the schema by type name.
+ * Resources are keyed by their lower-cased name, next to the reserved `_types` and `_mutations` keys.
+ * @param {Schema} schema - The schema
+ * @param {string} typeName - The name of the resource type
+ * @returns {SchemaResource | undefined} The resource or undefined if it does not exist
+ */
+export function getSchemaResource (
+  schema: Schema,
+  typeName: string
+): SchemaResource | undefined {
+  const resourceKey = typeName.toLowerCase()
+  return RESERVED_SCHEMA_KEYS.includes(resourceKey)
+    ? undefined
+    : schema[resourceKey] as SchemaResource | undefined
+}
+
+/**
+ * Resolves the canonical name of a type: the lower-cased key for resources
+ * and the declared name for nested types.
+ * @param {Schema} schema - The schema
+ * @param {string} typeName - The type name, possibly wrapped in list and non-null markers
+ * @returns {string | undefined} The canonical type name or undefined if the type is unknown
+ */
+export function getCanonicalTypeName (
+  schema: Schema,
+  typeName: string
+): string | undefined {
+  const namedType = typeName.replace(/[[\]!]/g, '')
+  if (schema._types[namedType]) {
+    return namedType
+  }
+  return getSchemaResource(schema, namedType) ? namedType.toLowerCase() : undefined
+}
@@ -0,0 +1,338 @@
+import { Logger } from '../utils/Logger'
+import { ValidationError } from '../validation/errors'
+import { parseMutationName } from '../utils/mutations'
+import { getSchemaResource, SCALAR_TYPES } from '../utils/schema'
+import {
+  Schema,
+  SchemaResource,
+  ValueType,
+  HttpMethod,
+  Endpoint,
+  MutationDefinition,
+  ArgumentValue,
+  ParsedOperation,
+  ParsedQuery,
+  ParsedField,
+  ValidationErrorDetail
+} from '../types'
+
+/**
+ * QueryValidator class for validating parsed operations against the schema
+ * before any request is sent.
+ * @extends Logger
+ */
+export class QueryValidator extends Logger {
+  private schema: Schema
+  private operationType: 'query' | 'mutation' = 'query'
+
+  /**
+   * Creates an instance of QueryValidator.
+   * @param {Schema} schema - The schema to validate operations against
+   */
+  constructor (schema: Schema) {
+    super('QueryValidator')
+    this.schema = schema
+  }
+
+  /**
+   * Validates an operation, collecting every problem before reporting them.
+   * @param {ParsedOperation} operation - The parsed operation to validate
+   * @throws {ValidationError} Listing every problem with its position if the operation is invalid
+   */
+  validate (operation: ParsedOperation): void {
+    const details: ValidationErrorDetail[] = []
+    this.operationType = operation.operationType
+
+    for (const query of operation.queries) {
+      this.validateRootField(query, operation.operationType, details)
+    }
+
+    if (details.length > 0) {
+      const errorMessage = `Invalid ${operation.operationType} ${
+        operation.operationName
+      }:\n${details
+        .map(({ message, pos }) =>
+          pos === undefined ? `- ${message}` : `- ${message} at position ${pos}`
+        )
+        .join('\n')}`
+      this.error(errorMessage)
+      throw new ValidationError(errorMessage, details)
+    }
+
+    this.log('Operation validation completed successfully')
+  }
+
+  /**
+   * Validates a top-level query or mutation field.
+   * @param {ParsedQuery} query - The top-level field
+   * @param {'query' | 'mutation'} operationType - The type of the operation
+   * @param {ValidationErrorDetail[]} details - The list collecting problems
+   * @private
+   */
+  private validateRootField (
+    query: ParsedQuery,
+    operationType: 'query' | 'mutation',
+    details: ValidationErrorDetail[]
+  ): void {
+    let resourceName = query.queryName
+    let method = HttpMethod.GET
+    const mutationDefinition = operationType === 'mutation'
+      ? this.schema._mutations?.[query.queryName]
+      : undefined
+
+    if (mutationDefinition) {
+      this.validateDeclaredMutation(query, mutationDefinition, details)
+      return
+    } else if (operationType === 'mutation') {
+      const mutationTarget = parseMutationName(query.queryName)
+      if (!mutationTarget) {
+        details.push({
+          message: `Unknown mutation "${query.queryName}"`,
+          pos: query.pos
+        })
+        return
+      }
+      resourceName = mutationTarget.resourceName
+      method = mutationTarget.method
+    }
+
+    const resource = getSchemaResource(this.schema, resourceName)
+    if (!resource) {
+      details.push({
+        message: `Unknown resource "${resourceName}"`,
+        pos: query.pos
+      })
+      return
+    }
+
+    const endpoint = resource.endpoints[method]
+    if (!endpoint) {
+      details.push({
+        message: `Resource "${resourceName}" has no ${method} endpoint`,
+        pos: query.pos
+      })
+    } else {
+      this.validateArguments(
+        query.args,
+        endpoint,
+        query.alias ?? query.queryName,
+        query.pos,
+        details
+      )
+    }
+
+    this.validateRootSelectionSet(query, resourceName, resource, details)
+  }
+
+  /**
+   * Validates a mutation declared in the `Mutation` type of the schema.
+   * @param {ParsedQuery} query - The top-level mutation field
+   * @param {MutationDefinition} mutationDefinition - The declared mutation
+   * @param {ValidationErrorDetail[]} details - The list collecting problems
+   * @private
+   */
+  private validateDeclaredMutation (
+    query: ParsedQuery,
+    mutationDefinition: MutationDefinition,
+    details: ValidationErrorDetail[]
+  ): void {
+    this.validateArguments(
+      query.args,
+      mutationDefinition.endpoint,
+      query.alias ?? query.queryName,
+      query.pos,
+      details
+    )
+
+    const typeName = mutationDefinition.type.replace(/[[\]!]/g, '')
+    const returnSchema = SCALAR_TYPES.includes(typeName)
+      ? undefined
+      : getSchemaResource(this.schema, typeName) ?? this.schema._types[typeName]
+    this.validateRootSelectionSet(query, typeName, returnSchema, details)
+  }
+
+  /**
+   * Validates the selection set of a top-level field, which is required unless the field
+   * returns a scalar.
+   * @param {ParsedQuery} query - The top-level field
+   * @param {string} typeName - The name of the type returned by the field
+   * @param {SchemaResource | ValueType | undefined} returnSchema - The schema of the returned type, undefined for scalars
+   * @param {ValidationErrorDetail[]} details - The list collecting problems
+   * @private
+   */
+  private validateRootSelectionSet (
+    query: ParsedQuery,
+    typeName: string,
+    returnSchema: SchemaResource | ValueType | undefined,
+    details: ValidationErrorDetail[]
+  ): void {
+    const responseKey = query.alias ?? query.queryName
+    const hasSelectionSet = Object.keys(query.fields).length > 0
+
+    if (!returnSchema) {
+      if (hasSelectionSet) {
+        details.push({
+          message: `Field "${responseKey}" of scalar type ${typeName} must not have a selection set`,
+          pos: query.pos
+        })
+      }
+    } else if (!hasSelectionSet) {
+      details.push({
+        message: `Field "${responseKey}" of type ${typeName} must have a selection set`,
+        pos: query.pos
+      })
+    } else {
+      this.validateSelectionSet(query.fields, returnSchema, typeName, details)
+    }
+  }
+
+  /**
+   * Validates the fields of a selection set against the type they are selected on.
+   * @param {{ [key: string]: ParsedField }} fields - The selected fields
+   * @param {SchemaResource | ValueType} parentSchema - The schema of the parent type
+   * @param {string} parentTypeName - The name of the parent type
+   * @param {ValidationErrorDetail[]} details - The list collecting problems
+   * @private
+   */
+  private validateSelectionSet (
+    fields: { [key: string]: ParsedField },
+    parentSchema: SchemaResource | ValueType,
+    parentTypeName: string,
+    details: ValidationErrorDetail[]
+  ): void {
+    for (const [responseKey, field] of Object.entries(fields)) {
+      this.validateDirectives(field, responseKey, details)
+
+      const fieldSchema = parentSchema.fields[field.name]
+      if (!fieldSchema) {
+        details.push({
+          message: `Unknown field "${field.name}" on type "${parentTypeName}"`,
+          pos: field.pos
+        })
+        continue
+      }
+
+      const typeName = fieldSchema.type.replace(/[[\]!]/g, '')
+      const nestedResource = getSchemaResource(this.schema, typeName)
+      const hasArgs = Object.keys(field.args).length > 0
+
+      if (hasArgs && !nestedResource) {
+        details.push({
+          message: `Field "${responseKey}" does not accept arguments`,
+          pos: field.pos
+        })
+      } else if (nestedResource?.endpoints.GET) {
+        // Nested resources are fetched with the arguments of @resolve or by the key the parent references
+        const parentArgNames = fieldSchema.resolve
+          ? Object.keys(fieldSchema.resolve.args ?? {})
+          : [nestedResource.endpoints.GET.batch?.key ?? nestedResource.key ?? 'id']
+        this.validateArguments(
+          field.args,
+          nestedResource.endpoints.GET,
+          responseKey,
+          field.pos,
+          details,
+          parentArgNames
+        )
+      }
+
+      if (SCALAR_TYPES.includes(typeName)) {
+        if (field.fields) {
+          details.push({
+            message: `Field "${responseKey}" of scalar type ${fieldSchema.type} must not have a selection set`,
+            pos: field.pos
+          })
+        }
+        continue
+      }
+
+      const nestedSchema = nestedResource ?? this.schema._types[typeName]
+      if (!field.fields) {
+        details.push({
+          message: `Field "${responseKey}" of type ${fieldSchema.type} must have a selection set`,
+          pos: field.pos
+        })
+      } else if (nestedSchema) {
+        this.validateSelectionSet(field.fields, nestedSchema, typeName, details)
+      }
+    }
+  }
+
+  /**
+   * Validates the directives applied to a field. Only `@export(as: "name")` is supported,
+   * which passes a result value to the following mutations of the operation.
+   * @param {ParsedField} field - The field
+   * @param {string} responseKey - The response key of the field used in messages
+   * @param {ValidationErrorDetail[]} details - The list collecting problems
+   * @private
+   */
+  private validateDirectives (
+    field: ParsedField,
+    responseKey: string,
+    details: ValidationErrorDetail[]
+  ): void {
+    for (const directive of field.directives ?? []) {
+      if (directive.name !== 'export') {
+        details.push({
+          message: `Unknown directive "@${directive.name}" on field "${responseKey}"`,
+          pos: directive.pos
+        })
+      } else if (this.operationType !== 'mutation') {
+        details.push({
+          message: 'Directive "@export" is only allowed in mutations',
+          pos: directive.pos
+        })
+      } else if (
+        typeof directive.args.as !== 'string' ||
+        Object.keys(directive.args).length !== 1
+      ) {
+        details.push({
+          message: `Directive "@export" on field "${responseKey}" requires a single string argument "as"`,
+          pos: directive.pos
+        })
+      }
+    }
+  }
+
+  /**
+   * Validates the arguments of a field against those declared on its endpoint.
+   * Endpoints without declared arguments accept any argument.
+   * @param {{ [key: string]: ArgumentValue }} args - The arguments of the field
+   * @param {Endpoint} endpoint - The endpoint the field is fetched from
+   * @param {string} responseKey - The response key of the field used in messages
+   * @param {number | undefined} pos - The position of the field
+   * @param {ValidationErrorDetail[]} details - The list collecting problems
+   * @param {string[]} [parentArgNames=[]] - The arguments supplied by the parent of a nested field, which are not required in the query
+   * @private
+   */
+  private validateArguments (
+    args: { [key: string]: ArgumentValue },
+    endpoint: Endpoint,
+    responseKey: string,
+    pos: number | undefined,
+    details: ValidationErrorDetail[],
+    parentArgNames: string[] = []
+  ): void {
+    if (!endpoint.args) {
+      return
+    }
+
+    for (const argName of Object.keys(args)) {
+      if (!endpoint.args[argName]) {
+        details.push({
+          message: `Unknown argument "${argName}" on field "${responseKey}"`,
+          pos
+        })
+      }
+    }
+
+    for (const [argName, argument] of Object.entries(endpoint.args)) {
+      if (argument.isRequired && !(argName in args) && !parentArgNames.includes(argName)) {
+        details.push({
+          message: `Missing required argument "${argName}" of type ${argument.type} on field "${responseKey}"`,
+          pos
+        })
+      }
+    }
+  }
+}
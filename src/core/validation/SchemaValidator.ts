@@ -1,6 +1,24 @@
 import { Logger } from '../utils/Logger'
-import { Schema, SchemaResource, ValueType, SchemaField } from '../types'
+import {
+  Schema,
+  SchemaResource,
+  ValueType,
+  SchemaField,
+  RetryPolicy,
+  BatchPolicy,
+  PaginationPolicy,
+  PaginationStrategy,
+  TimeoutPolicy,
+  ResolvePolicy,
+  CachePolicy,
+  Endpoint,
+  EndpointArgument,
+  MutationDefinition,
+  ArgumentLocation,
+  HttpMethod
+} from '../types'
 import { SchemaError } from '../validation/errors'
+import { getSchemaResource, SCALAR_TYPES } from '../utils/schema'
 
 /**
  * SchemaValidator class for validating RestQL schemas.
@@ -31,8 +49,9 @@ export class SchemaValidator extends Logger {
   validateSchema (schema: Schema): void {
     this.currentSchema = schema
     this.log('Starting schema validation')
-    for (const [resourceName, resource] of Object.entries(schema)) {
-      if (resourceName === '_types') continue
+    for (const resourceName of Object.keys(schema)) {
+      const resource = getSchemaResource(schema, resourceName)
+      if (!resource) continue
       this.validateSchemaResource(resourceName, resource, true)
     }
 
@@ -42,6 +61,13 @@ export class SchemaValidator extends Logger {
         this.validateSchemaResource(typeName, type, false)
       }
     }
+
+    if (schema._mutations) {
+      this.log('Validating mutations')
+      for (const [mutationName, mutation] of Object.entries(schema._mutations)) {
+        this.validateMutation(mutationName, mutation)
+      }
+    }
     this.log('Schema validation completed successfully')
   }
 
@@ -75,6 +101,14 @@ export class SchemaValidator extends Logger {
     if (resource.transform) {
       this.validateResourceTransform(resourceName, resource.transform)
     }
+
+    if (resource.key !== undefined) {
+      this.ensureKeyIsField(resourceName, resource)
+    }
+
+    if ('cache' in resource && resource.cache !== undefined) {
+      this.ensureCachePolicyIsValid(resourceName, resource.cache, isTopLevel)
+    }
   }
 
   /**
@@ -92,7 +126,61 @@ export class SchemaValidator extends Logger {
     this.ensureEndpointsAreValid(resourceName, resource)
 
     for (const [method, endpoint] of Object.entries(resource.endpoints)) {
-      this.ensureEndpointPathIsString(resourceName, method, endpoint)
+      this.validateEndpoint(resourceName, method, endpoint)
+    }
+  }
+
+  /**
+   * Validates a mutation declared in the Mutation type.
+   * This method checks the return type and the endpoint of the mutation.
+   * @param {string} mutationName - The name of the mutation
+   * @param {MutationDefinition} mutation - The mutation to validate
+   * @throws {SchemaError} If the mutation is invalid
+   * @private
+   */
+  private validateMutation (
+    mutationName: string,
+    mutation: MutationDefinition
+  ): void {
+    this.log(`Validating mutation: ${mutationName}`)
+    const resourceName = `Mutation.${mutationName}`
+    this.validateFieldType(mutation.type, 'Mutation', mutationName)
+    this.validateEndpoint(resourceName, mutation.endpoint.method, mutation.endpoint)
+  }
+
+  /**
+   * Validates a single endpoint of a resource or mutation.
+   * This method checks the path, data path, retry, batch, pagination and timeout policies and declared arguments.
+   * @param {string} resourceName - The name of the resource or mutation
+   * @param {string} method - The HTTP method of the endpoint
+   * @param {Endpoint} endpoint - The endpoint to validate
+   * @throws {SchemaError} If the endpoint is invalid
+   * @private
+   */
+  private validateEndpoint (
+    resourceName: string,
+    method: string,
+    endpoint: Endpoint
+  ): void {
+    this.ensureEndpointPathIsString(resourceName, method, endpoint)
+    this.ensureEndpointDataPathIsValid(resourceName, method, endpoint)
+    if (endpoint.retry) {
+      this.ensureRetryPolicyIsValid(resourceName, method, endpoint.retry)
+    }
+    if (endpoint.batch) {
+      this.ensureBatchPolicyIsValid(resourceName, method, endpoint.batch)
+    }
+    if (endpoint.paginate) {
+      this.ensurePaginationPolicyIsValid(resourceName, method, endpoint.paginate)
+    }
+    if (endpoint.timeout) {
+      this.ensureTimeoutPolicyIsValid(resourceName, method, endpoint.timeout)
+    }
+    for (const [argName, argument] of Object.entries(endpoint.args ?? {})) {
+      this.ensureEndpointArgumentIsValid(resourceName, endpoint, argName, argument)
+    }
+    for (const target of endpoint.invalidates ?? []) {
+      this.ensureInvalidationTargetIsValid(resourceName, method, target)
     }
   }
 
@@ -122,6 +210,9 @@ export class SchemaValidator extends Logger {
     if (field.transform) {
       this.validateFieldTransform(resourceName, fieldName, field.transform)
     }
+    if (field.resolve) {
+      this.ensureResolvePolicyIsValid(resourceName, fieldName, field.type, field.resolve)
+    }
   }
 
   /**
@@ -138,12 +229,11 @@ export class SchemaValidator extends Logger {
     resourceName: string,
     fieldName: string
   ): void {
-    const baseTypes = ['Boolean', 'String', 'Int']
     const strippedType = type.replace(/[\[\]!]/g, '')
 
     if (
-      !baseTypes.includes(strippedType) &&
-      !this.currentSchema[strippedType.toLowerCase()] &&
+      !SCALAR_TYPES.includes(strippedType) &&
+      !getSchemaResource(this.currentSchema, strippedType) &&
       !this.currentSchema._types?.[strippedType]
     ) {
       this.throwInvalidTypeError(type, resourceName, fieldName)
@@ -320,6 +410,24 @@ export class SchemaValidator extends Logger {
     }
   }
 
+  /**
+   * Ensures that the key declared with `@key` is a field of the resource or type.
+   * @param {string} resourceName - The name of the resource
+   * @param {SchemaResource | ValueType} resource - The resource to check
+   * @throws {SchemaError} If the key is not a field
+   * @private
+   */
+  private ensureKeyIsField (
+    resourceName: string,
+    resource: SchemaResource | ValueType
+  ): void {
+    if (typeof resource.key !== 'string' || !resource.fields[resource.key]) {
+      const errorMsg = `Key ${resource.key} of resource ${resourceName} must be one of its fields`
+      this.error(errorMsg)
+      throw new SchemaError(errorMsg)
+    }
+  }
+
   /**
    * Ensures that the endpoints of a resource are valid.
    * @param {string} resourceName - The name of the resource
@@ -362,6 +470,354 @@ export class SchemaValidator extends Logger {
     }
   }
 
+  /**
+   * Ensures that an endpoint's data path is a well-formed dot-notated path such as `data.items[0]`.
+   * An empty data path selects the whole response.
+   * @param {string} resourceName - The name of the resource
+   * @param {string} method - The HTTP method of the endpoint
+   * @param {Endpoint} endpoint - The endpoint to check
+   * @throws {SchemaError} If the data path is malformed
+   * @private
+   */
+  private ensureEndpointDataPathIsValid (
+    resourceName: string,
+    method: string,
+    endpoint: Endpoint
+  ): void {
+    const { dataPath } = endpoint
+    if (dataPath === undefined || dataPath === '') {
+      return
+    }
+
+    if (
+      typeof dataPath !== 'string' ||
+      !/^(?:[\w$-]+|\[\d+\])(?:\.[\w$-]+|\[\d+\])*$/.test(dataPath)
+    ) {
+      const errorMsg = `Invalid data path "${dataPath}" for ${method} endpoint of resource ${resourceName}`
+      this.error(errorMsg)
+      throw new SchemaError(errorMsg)
+    }
+  }
+
+  /**
+   * Ensures that an invalidation target names a resource, optionally followed by one of its fields (`User.posts`).
+   * @param {string} resourceName - The name of the resource
+   * @param {string} method - The HTTP method of the endpoint
+   * @param {string} target - The invalidation target to check
+   * @throws {SchemaError} If the target does not exist
+   * @private
+   */
+  private ensureInvalidationTargetIsValid (
+    resourceName: string,
+    method: string,
+    target: string
+  ): void {
+    const [targetResourceName, targetFieldName, ...rest] = target.split('.')
+    const targetResource = getSchemaResource(this.currentSchema, targetResourceName)
+
+    if (
+      !targetResource ||
+      rest.length > 0 ||
+      (targetFieldName !== undefined && !targetResource.fields[targetFieldName])
+    ) {
+      const errorMsg = `Invalid invalidation target "${target}" for ${method} endpoint of resource ${resourceName}`
+      this.error(errorMsg)
+      throw new SchemaError(errorMsg)
+    }
+  }
+
+  /**
+   * Ensures that a resource's cache policy has valid values. Only resources fetched
+   * from an endpoint are cached, so nested types cannot declare a cache policy.
+   * @param {string} resourceName - The name of the resource
+   * @param {CachePolicy} cachePolicy - The cache policy to check
+   * @param {boolean} isTopLevel - Whether the policy is declared on a top-level resource
+   * @throws {SchemaError} If the cache policy is invalid
+   * @private
+   */
+  private ensureCachePolicyIsValid (
+    resourceName: string,
+    cachePolicy: CachePolicy,
+    isTopLevel: boolean
+  ): void {
+    const { ttl, swr, ...unknownOptions } = cachePolicy
+    const unknownOptionNames = Object.keys(unknownOptions)
+    let errorMsg = ''
+
+    if (!isTopLevel) {
+      errorMsg = '@cache requires an @endpoint'
+    } else if (unknownOptionNames.length > 0) {
+      errorMsg = `Unknown cache options ${unknownOptionNames.join(', ')}`
+    } else if (ttl !== undefined && (typeof ttl !== 'number' || ttl < 0)) {
+      errorMsg = 'ttl must be a non-negative number'
+    } else if (swr !== undefined && (typeof swr !== 'number' || swr < 0)) {
+      errorMsg = 'swr must be a non-negative number'
+    }
+
+    if (errorMsg) {
+      errorMsg += ` for resource ${resourceName}`
+      this.error(errorMsg)
+      throw new SchemaError(errorMsg)
+    }
+  }
+
+  /**
+   * Ensures that an endpoint's retry policy has valid values.
+   * @param {string} resourceName - The name of the resource
+   * @param {string} method - The HTTP method of the endpoint
+   * @param {RetryPolicy} retryPolicy - The retry policy to check
+   * @throws {SchemaError} If the retry policy is invalid
+   * @private
+   */
+  private ensureRetryPolicyIsValid (
+    resourceName: string,
+    method: string,
+    retryPolicy: RetryPolicy
+  ): void {
+    const { maxRetries, retryDelay, idempotent, ...unknownOptions } = retryPolicy
+    const unknownOptionNames = Object.keys(unknownOptions)
+    let errorMsg = ''
+
+    if (unknownOptionNames.length > 0) {
+      errorMsg = `Unknown retry options ${unknownOptionNames.join(', ')}`
+    } else if (
+      maxRetries !== undefined &&
+      (!Number.isInteger(maxRetries) || maxRetries < 0)
+    ) {
+      errorMsg = 'maxRetries must be a non-negative integer'
+    } else if (
+      retryDelay !== undefined &&
+      (typeof retryDelay !== 'number' || retryDelay < 0)
+    ) {
+      errorMsg = 'retryDelay must be a non-negative number'
+    } else if (idempotent !== undefined && typeof idempotent !== 'boolean') {
+      errorMsg = 'idempotent must be a boolean'
+    }
+
+    if (errorMsg) {
+      errorMsg += ` for ${method} endpoint of resource ${resourceName}`
+      this.error(errorMsg)
+      throw new SchemaError(errorMsg)
+    }
+  }
+
+  /**
+   * Ensures that an endpoint's batch policy names the batch parameter and the key, and only applies to GET endpoints.
+   * @param {string} resourceName - The name of the resource
+   * @param {string} method - The HTTP method of the endpoint
+   * @param {BatchPolicy} batchPolicy - The batch policy to check
+   * @throws {SchemaError} If the batch policy is invalid
+   * @private
+   */
+  private ensureBatchPolicyIsValid (
+    resourceName: string,
+    method: string,
+    batchPolicy: BatchPolicy
+  ): void {
+    const { param, key, field, path, separator, maxBatchSize, ...unknownOptions } = batchPolicy
+    const unknownOptionNames = Object.keys(unknownOptions)
+    let errorMsg = ''
+
+    if (method !== HttpMethod.GET) {
+      errorMsg = '@batch is only supported on GET endpoints'
+    } else if (unknownOptionNames.length > 0) {
+      errorMsg = `Unknown batch options ${unknownOptionNames.join(', ')}`
+    } else if (typeof param !== 'string' || param === '') {
+      errorMsg = 'param must be a non-empty string'
+    } else if (typeof key !== 'string' || key === '') {
+      errorMsg = 'key must be a non-empty string'
+    } else if (field !== undefined && (typeof field !== 'string' || field === '')) {
+      errorMsg = 'field must be a non-empty string'
+    } else if (path !== undefined && typeof path !== 'string') {
+      errorMsg = 'path must be a string'
+    } else if (separator !== undefined && typeof separator !== 'string') {
+      errorMsg = 'separator must be a string'
+    } else if (
+      maxBatchSize !== undefined &&
+      (!Number.isInteger(maxBatchSize) || maxBatchSize < 1)
+    ) {
+      errorMsg = 'maxBatchSize must be a positive integer'
+    }
+
+    if (errorMsg) {
+      errorMsg += ` for ${method} endpoint of resource ${resourceName}`
+      this.error(errorMsg)
+      throw new SchemaError(errorMsg)
+    }
+  }
+
+  /**
+   * Ensures that an endpoint's pagination policy has a known strategy and valid options, and only applies to GET endpoints.
+   * @param {string} resourceName - The name of the resource
+   * @param {string} method - The HTTP method of the endpoint
+   * @param {PaginationPolicy} paginationPolicy - The pagination policy to check
+   * @throws {SchemaError} If the pagination policy is invalid
+   * @private
+   */
+  private ensurePaginationPolicyIsValid (
+    resourceName: string,
+    method: string,
+    paginationPolicy: PaginationPolicy
+  ): void {
+    const { strategy, param, sizeParam, pageSize, cursorPath, maxPages, ...unknownOptions } =
+      paginationPolicy
+    const unknownOptionNames = Object.keys(unknownOptions)
+    const strategies = Object.values(PaginationStrategy) as string[]
+    let errorMsg = ''
+
+    if (method !== HttpMethod.GET) {
+      errorMsg = '@paginate is only supported on GET endpoints'
+    } else if (unknownOptionNames.length > 0) {
+      errorMsg = `Unknown pagination options ${unknownOptionNames.join(', ')}`
+    } else if (!strategies.includes(strategy)) {
+      errorMsg = `strategy must be one of ${strategies.join(', ')}`
+    } else if (
+      [param, sizeParam].some((value) => value !== undefined && (typeof value !== 'string' || value === ''))
+    ) {
+      errorMsg = 'param and sizeParam must be non-empty strings'
+    } else if (
+      cursorPath !== undefined &&
+      (typeof cursorPath !== 'string' || !/^(?:[\w$-]+|\[\d+\])(?:\.[\w$-]+|\[\d+\])*$/.test(cursorPath))
+    ) {
+      errorMsg = `Invalid cursor path "${cursorPath}"`
+    } else if (
+      [pageSize, maxPages].some((value) => value !== undefined && (!Number.isInteger(value) || value < 1))
+    ) {
+      errorMsg = 'pageSize and maxPages must be positive integers'
+    }
+
+    if (errorMsg) {
+      errorMsg += ` for ${method} endpoint of resource ${resourceName}`
+      this.error(errorMsg)
+      throw new SchemaError(errorMsg)
+    }
+  }
+
+  /**
+   * Ensures that an endpoint's timeout policy is a positive number of milliseconds.
+   * @param {string} resourceName - The name of the resource
+   * @param {string} method - The HTTP method of the endpoint
+   * @param {TimeoutPolicy} timeoutPolicy - The timeout policy to check
+   * @throws {SchemaError} If the timeout policy is invalid
+   * @private
+   */
+  private ensureTimeoutPolicyIsValid (
+    resourceName: string,
+    method: string,
+    timeoutPolicy: TimeoutPolicy
+  ): void {
+    const { ms, ...unknownOptions } = timeoutPolicy
+    const unknownOptionNames = Object.keys(unknownOptions)
+    let errorMsg = ''
+
+    if (unknownOptionNames.length > 0) {
+      errorMsg = `Unknown timeout options ${unknownOptionNames.join(', ')}`
+    } else if (typeof ms !== 'number' || !(ms > 0)) {
+      errorMsg = 'ms must be a positive number'
+    }
+
+    if (errorMsg) {
+      errorMsg += ` for ${method} endpoint of resource ${resourceName}`
+      this.error(errorMsg)
+      throw new SchemaError(errorMsg)
+    }
+  }
+
+  /**
+   * Ensures that a field's resolve policy targets a resource with a GET endpoint and that
+   * every `$parent` reference is a well-formed path into the parent object.
+   * @param {string} resourceName - The name of the resource
+   * @param {string} fieldName - The name of the field
+   * @param {string} fieldType - The type of the field
+   * @param {ResolvePolicy} resolvePolicy - The resolve policy to check
+   * @throws {SchemaError} If the resolve policy is invalid
+   * @private
+   */
+  private ensureResolvePolicyIsValid (
+    resourceName: string,
+    fieldName: string,
+    fieldType: string,
+    resolvePolicy: ResolvePolicy
+  ): void {
+    const { args, ...unknownOptions } = resolvePolicy
+    const unknownOptionNames = Object.keys(unknownOptions)
+    const nestedResource = getSchemaResource(this.currentSchema, fieldType.replace(/[\[\]!]/g, ''))
+    const invalidParentReference = Object.values(args ?? {}).find(
+      (value) =>
+        typeof value === 'string' &&
+        value.startsWith('$parent') &&
+        !/^\$parent\.(?:[\w$-]+|\[\d+\])(?:\.[\w$-]+|\[\d+\])*$/.test(value)
+    )
+    let errorMsg = ''
+
+    if (!nestedResource?.endpoints?.GET) {
+      errorMsg = `@resolve requires a resource type with a GET endpoint, got ${fieldType}`
+    } else if (unknownOptionNames.length > 0) {
+      errorMsg = `Unknown resolve options ${unknownOptionNames.join(', ')}`
+    } else if (typeof args !== 'object' || args === null) {
+      errorMsg = 'args must be an object'
+    } else if (invalidParentReference !== undefined) {
+      errorMsg = `Invalid parent reference "${invalidParentReference}"`
+    }
+
+    if (errorMsg) {
+      errorMsg += ` for field ${fieldName} of resource ${resourceName}`
+      this.error(errorMsg)
+      throw new SchemaError(errorMsg)
+    }
+  }
+
+  /**
+   * Ensures that an argument declared on an endpoint has a known type and a valid location.
+   * Path arguments must appear in the path template and always have a value.
+   * @param {string} resourceName - The name of the resource
+   * @param {Endpoint} endpoint - The endpoint declaring the argument
+   * @param {string} argName - The name of the argument
+   * @param {EndpointArgument} argument - The argument to check
+   * @throws {SchemaError} If the argument is invalid
+   * @private
+   */
+  private ensureEndpointArgumentIsValid (
+    resourceName: string,
+    endpoint: Endpoint,
+    argName: string,
+    argument: EndpointArgument
+  ): void {
+    const strippedType = argument.type.replace(/[[\]!]/g, '')
+    let errorMsg = ''
+
+    if (
+      !SCALAR_TYPES.includes(strippedType) &&
+      !this.currentSchema._types?.[strippedType]
+    ) {
+      errorMsg = `Invalid type ${argument.type} for argument ${argName}`
+    } else if (!Object.values(ArgumentLocation).includes(argument.in)) {
+      errorMsg = `Invalid location ${argument.in} for argument ${argName}`
+    } else if (
+      argument.in === ArgumentLocation.PATH &&
+      !endpoint.path.includes(`{${argName}}`)
+    ) {
+      errorMsg = `Path argument ${argName} does not appear in path ${endpoint.path}`
+    } else if (
+      argument.in === ArgumentLocation.PATH &&
+      !argument.isRequired &&
+      argument.defaultValue === undefined
+    ) {
+      errorMsg = `Path argument ${argName} must be non-null or have a default value`
+    } else if (
+      argument.in === ArgumentLocation.BODY &&
+      endpoint.method === HttpMethod.GET
+    ) {
+      errorMsg = `Body argument ${argName} is not allowed`
+    }
+
+    if (errorMsg) {
+      errorMsg += ` on ${endpoint.method} endpoint of resource ${resourceName}`
+      this.error(errorMsg)
+      throw new SchemaError(errorMsg)
+    }
+  }
+
   /**
    * Ensures that a field is an object.
    * @param {string} resourceName - The name of the resource
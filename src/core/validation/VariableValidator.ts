@@ -0,0 +1,213 @@
+import { Logger } from '../utils/Logger'
+import { ValidationError } from '../validation/errors'
+import { getSchemaResource } from '../utils/schema'
+import {
+  Schema,
+  SchemaField,
+  VariableDefinition,
+  VariableValues,
+  ValidationErrorDetail
+} from '../types'
+
+/**
+ * VariableValidator class for coercing operation variables to their declared types.
+ * @extends Logger
+ */
+export class VariableValidator extends Logger {
+  private schema: Schema
+
+  /**
+   * Creates an instance of VariableValidator.
+   * @param {Schema} schema - The schema providing custom input types
+   */
+  constructor (schema: Schema) {
+    super('VariableValidator')
+    this.schema = schema
+  }
+
+  /**
+   * Applies default values and coerces the provided variables to their declared types.
+   * Variables that are provided but not declared are passed through unchanged.
+   * @param {{ [key: string]: VariableDefinition }} declaredVariables - The variables declared in the operation
+   * @param {VariableValues} providedVariables - The variables provided for execution
+   * @returns {VariableValues} The coerced variables
+   * @throws {ValidationError} Listing every invalid variable if any is invalid
+   */
+  validate (
+    declaredVariables: { [key: string]: VariableDefinition },
+    providedVariables: VariableValues
+  ): VariableValues {
+    const coercedVariables: VariableValues = { ...providedVariables }
+    const details: ValidationErrorDetail[] = []
+
+    for (const [varName, varDef] of Object.entries(declaredVariables)) {
+      this.log(`Checking variable: ${varName}, type: ${varDef.type}`)
+      const isProvided = varName in providedVariables
+
+      if (!isProvided && varDef.defaultValue !== undefined) {
+        coercedVariables[varName] = varDef.defaultValue
+      } else if (!isProvided) {
+        if (varDef.isRequired) {
+          details.push({
+            message: `Required variable $${varName} of type ${varDef.type} is not provided`
+          })
+        }
+        continue
+      }
+
+      const problems: string[] = []
+      coercedVariables[varName] = this.coerceValue(
+        coercedVariables[varName],
+        varDef.type,
+        `$${varName}`,
+        problems
+      )
+      details.push(...problems.map((message) => ({ message })))
+    }
+
+    if (details.length > 0) {
+      const errorMessage = `Invalid variables:\n${details
+        .map(({ message }) => `- ${message}`)
+        .join('\n')}`
+      this.error(errorMessage)
+      throw new ValidationError(errorMessage, details)
+    }
+
+    this.log('Variable validation completed successfully')
+    return coercedVariables
+  }
+
+  /**
+   * Coerces a value to a type reference such as `Int`, `[String!]!` or a custom input type.
+   * @param {any} value - The value to coerce
+   * @param {string} type - The type reference
+   * @param {string} path - The path of the value used in error messages
+   * @param {string[]} problems - The list collecting coercion problems
+   * @returns {any} The coerced value
+   * @private
+   */
+  private coerceValue (
+    value: any,
+    type: string,
+    path: string,
+    problems: string[]
+  ): any {
+    const isNonNull = type.endsWith('!')
+    const nullableType = isNonNull ? type.slice(0, -1) : type
+
+    if (value === null || value === undefined) {
+      if (isNonNull) {
+        problems.push(`${path} of type ${type} must not be null`)
+      }
+      return null
+    }
+
+    if (nullableType.startsWith('[')) {
+      const itemType = nullableType.slice(1, -1)
+      // A single value is accepted where a list is expected
+      const items = Array.isArray(value) ? value : [value]
+      return items.map((item, index) =>
+        this.coerceValue(item, itemType, `${path}[${index}]`, problems)
+      )
+    }
+
+    return this.coerceNamedType(value, nullableType, path, problems)
+  }
+
+  /**
+   * Coerces a non-null value to a named scalar or input type.
+   * @param {any} value - The value to coerce
+   * @param {string} typeName - The name of the type
+   * @param {string} path - The path of the value used in error messages
+   * @param {string[]} problems - The list collecting coercion problems
+   * @returns {any} The coerced value
+   * @private
+   */
+  private coerceNamedType (
+    value: any,
+    typeName: string,
+    path: string,
+    problems: string[]
+  ): any {
+    const invalid = () => {
+      problems.push(
+        `${path} expected a value of type ${typeName} but received ${JSON.stringify(value)}`
+      )
+      return value
+    }
+
+    switch (typeName) {
+      case 'Int': {
+        const num = typeof value === 'string' && /^-?\d+$/.test(value) ? Number(value) : value
+        return Number.isInteger(num) ? num : invalid()
+      }
+      case 'Float': {
+        const num = typeof value === 'string' && value.trim() !== '' ? Number(value) : value
+        return typeof num === 'number' && isFinite(num) ? num : invalid()
+      }
+      case 'String':
+      case 'ID':
+        return typeof value === 'string' || typeof value === 'number'
+          ? String(value)
+          : invalid()
+      case 'Boolean':
+        if (typeof value === 'boolean') {
+          return value
+        }
+        return value === 'true' || value === 'false' ? value === 'true' : invalid()
+    }
+
+    const inputType =
+      this.schema._types[typeName] ?? getSchemaResource(this.schema, typeName)
+    if (!inputType) {
+      problems.push(`${path} has unknown type ${typeName}`)
+      return value
+    }
+
+    if (typeof value !== 'object' || Array.isArray(value)) {
+      return invalid()
+    }
+
+    return this.coerceInputObject(value, typeName, inputType.fields, path, problems)
+  }
+
+  /**
+   * Coerces an object to a custom input type declared in the SDL.
+   * @param {{ [key: string]: any }} value - The object to coerce
+   * @param {string} typeName - The name of the input type
+   * @param {{ [key: string]: SchemaField }} fields - The fields of the input type
+   * @param {string} path - The path of the value used in error messages
+   * @param {string[]} problems - The list collecting coercion problems
+   * @returns {{ [key: string]: any }} The coerced object
+   * @private
+   */
+  private coerceInputObject (
+    value: { [key: string]: any },
+    typeName: string,
+    fields: { [key: string]: SchemaField },
+    path: string,
+    problems: string[]
+  ): { [key: string]: any } {
+    const coercedObject: { [key: string]: any } = {}
+
+    for (const fieldName of Object.keys(value)) {
+      if (!fields[fieldName]) {
+        problems.push(`${path}.${fieldName} is not a field of ${typeName}`)
+      }
+    }
+
+    for (const [fieldName, field] of Object.entries(fields)) {
+      if (!(fieldName in value) && field.isNullable) {
+        continue
+      }
+      coercedObject[fieldName] = this.coerceValue(
+        value[fieldName],
+        field.type,
+        `${path}.${fieldName}`,
+        problems
+      )
+    }
+
+    return coercedObject
+  }
+}
@@ -1,3 +1,5 @@
+import { ValidationErrorDetail } from '../types'
+
 /**
  * Base error class for RestQL-related errors.
  * @extends Error
@@ -33,13 +35,17 @@ export class NetworkError extends RestQLError {
  * @extends RestQLError
  */
 export class ValidationError extends RestQLError {
+  details: ValidationErrorDetail[]
+
   /**
    * Creates a new ValidationError instance.
    * @param {string} errorMessage - The error message describing the validation issue
+   * @param {ValidationErrorDetail[]} [details=[]] - The individual problems when several were found at once
    */
-  constructor (errorMessage: string) {
+  constructor (errorMessage: string, details: ValidationErrorDetail[] = []) {
     super(errorMessage)
     this.name = 'ValidationError'
+    this.details = details
   }
 }
 
@@ -57,3 +63,48 @@ export class SchemaError extends RestQLError {
     this.name = 'SchemaError'
   }
 }
+
+/**
+ * Error class for queries that cannot be answered from the cache when the network must not be used.
+ * @extends RestQLError
+ */
+export class CacheMissError extends RestQLError {
+  /**
+   * Creates a new CacheMissError instance.
+   * @param {string} errorMessage - The error message describing the missing cache entry
+   */
+  constructor (errorMessage: string) {
+    super(errorMessage)
+    this.name = 'CacheMissError'
+  }
+}
+
+/**
+ * Error class for operations and requests aborted through an AbortSignal.
+ * @extends RestQLError
+ */
+export class AbortError extends RestQLError {
+  /**
+   * Creates a new AbortError instance.
+   * @param {string} errorMessage - The error message describing what was aborted
+   */
+  constructor (errorMessage: string) {
+    super(errorMessage)
+    this.name = 'AbortError'
+  }
+}
+
+/**
+ * Error class for operations and requests that did not complete within their timeout.
+ * @extends RestQLError
+ */
+export class TimeoutError extends RestQLError {
+  /**
+   * Creates a new TimeoutError instance.
+   * @param {string} errorMessage - The error message describing what timed out
+   */
+  constructor (errorMessage: string) {
+    super(errorMessage)
+    this.name = 'TimeoutError'
+  }
+}
@@ -0,0 +1,842 @@
+import { expect, describe, beforeEach, vi, afterEach, it } from 'vitest'
+import { RestQL } from '../../src/core/RestQL'
+import { AbortError, CacheMissError, TimeoutError } from '../../src/core/validation/errors'
+
+describe('RestQL', () => {
+  let fetchMock: ReturnType<typeof vi.fn>
+
+  const sdl = `
+    type User {
+      id: String @from("user_id")
+      posts: [Post] @from("posts")
+
+      @endpoint(GET, "/users", "data.data[0]")
+      @endpoint(DELETE, "/users", "data")
+    }
+
+    type Post {
+      id: String @from("post_id")
+
+      @endpoint(GET, "/posts", "data")
+    }
+
+    input ResetPasswordInput {
+      email: String!
+    }
+
+    type Mutation {
+      archiveUser(id: Int!): User @endpoint(POST, "/users/{id}/archive", "data")
+      createPost(userId: String!, title: String): Post
+        @endpoint(POST, "/users/{userId}/posts", "data")
+        @invalidates("User.posts")
+      resetPassword(id: Int!, input: ResetPasswordInput): Boolean
+        @endpoint(POST, "/users/{id}/reset-password", "ok")
+        @arg(token: String!, in: HEADER)
+    }
+  `
+
+  const jsonResponse = (body: any) => new Response(JSON.stringify(body), { status: 200 })
+
+  const createRestQL = () =>
+    new RestQL(sdl, { default: 'https://api.example.com' }, { batchInterval: 0, maxRetries: 0 })
+
+  beforeEach(() => {
+    fetchMock = vi.fn()
+    vi.stubGlobal('fetch', fetchMock)
+  })
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('should extract data with the path of the endpoint that was called', async () => {
+    const restql = createRestQL()
+    fetchMock
+      .mockResolvedValueOnce(jsonResponse({ data: { data: [{ user_id: '1' }] } }))
+      .mockResolvedValueOnce(jsonResponse({ data: { user_id: '2' } }))
+
+    const queryResult = await restql.execute('query GetUser { user { id } }')
+    const mutationResult = await restql.execute('mutation RemoveUser { deleteUser(id: 2) { id } }')
+
+    expect(queryResult.shapedData).toEqual({ user: { id: '1' } })
+    expect(mutationResult.shapedData).toEqual({ deleteUser: { id: '2' } })
+  })
+  it('should coerce ID and Float fields', async () => {
+    const restql = new RestQL(`
+      type Product {
+        id: ID
+        price: Float
+
+        @endpoint(GET, "/products", "data")
+      }
+    `, { default: 'https://api.example.com' }, { batchInterval: 0, maxRetries: 0 })
+    fetchMock
+      .mockResolvedValueOnce(jsonResponse({ data: { id: 7, price: '9.5' } }))
+      .mockResolvedValueOnce(jsonResponse({ data: { id: 8, price: 'free' } }))
+
+    const result = await restql.execute('query GetProduct { product { id price } }')
+    const invalidResult = await restql.execute('query GetProduct { product(id: 8) { id price } }')
+
+    expect(result.shapedData).toEqual({ product: { id: '7', price: 9.5 } })
+    expect(invalidResult.shapedData).toEqual({ product: { id: '8', price: null } })
+  })
+  it('should dispatch mutations declared in the Mutation type', async () => {
+    const restql = createRestQL()
+    fetchMock
+      .mockResolvedValueOnce(jsonResponse({ data: { user_id: '3' } }))
+      .mockResolvedValueOnce(jsonResponse({ ok: true }))
+
+    const archived = await restql.execute('mutation Archive { archiveUser(id: 3) { id } }')
+    const reset = await restql.execute(
+      'mutation Reset($input: ResetPasswordInput) { resetPassword(id: 3, input: $input, token: "t") }',
+      { input: { email: 'jane@example.com' } }
+    )
+
+    expect(archived.shapedData).toEqual({ archiveUser: { id: '3' } })
+    expect(reset.shapedData).toEqual({ resetPassword: true })
+
+    const [archiveUrl, archiveOptions] = fetchMock.mock.calls[0]
+    expect(archiveUrl).toBe('https://api.example.com/users/3/archive')
+    expect(archiveOptions.method).toBe('POST')
+
+    const [resetUrl, resetOptions] = fetchMock.mock.calls[1]
+    expect(resetUrl).toBe('https://api.example.com/users/3/reset-password')
+    expect(resetOptions.headers.token).toBe('t')
+    expect(JSON.parse(resetOptions.body)).toEqual({ input: { email: 'jane@example.com' } })
+  })
+
+  it('should reject invalid uses of declared mutations before sending requests', async () => {
+    const restql = createRestQL()
+
+    await expect(restql.execute('mutation Archive { archiveUser { id } }')).rejects.toThrow(
+      'Missing required argument "id" of type Int! on field "archiveUser"'
+    )
+    await expect(restql.execute('mutation Archive { archiveUser(id: 3) }')).rejects.toThrow(
+      'Field "archiveUser" of type User must have a selection set'
+    )
+    expect(fetchMock).not.toHaveBeenCalled()
+  })
+  describe('mutation ordering', () => {
+    const deferred = () => {
+      let resolve: (value: Response) => void = () => {}
+      const promise = new Promise<Response>((_resolve) => { resolve = _resolve })
+      return { promise, resolve }
+    }
+    const operation = `
+      mutation Archive {
+        first: archiveUser(id: 1) { id }
+        second: archiveUser(id: 2) { id }
+      }
+    `
+
+    it('should run mutations serially and key results by response key', async () => {
+      const restql = createRestQL()
+      const firstResponse = deferred()
+      fetchMock
+        .mockReturnValueOnce(firstResponse.promise)
+        .mockResolvedValueOnce(jsonResponse({ data: { user_id: '2' } }))
+
+      const promise = restql.execute(operation)
+      await vi.waitFor(() => expect(fetchMock).toHaveBeenCalledTimes(1))
+      await new Promise((resolve) => setTimeout(resolve, 10))
+      expect(fetchMock).toHaveBeenCalledTimes(1)
+
+      firstResponse.resolve(jsonResponse({ data: { user_id: '1' } }))
+      const result = await promise
+
+      expect(fetchMock).toHaveBeenCalledTimes(2)
+      expect(Object.keys(result.shapedData)).toEqual(['first', 'second'])
+      expect(result.shapedData).toEqual({ first: { id: '1' }, second: { id: '2' } })
+    })
+
+    it('should run mutations concurrently in parallel mode and keep the declared order', async () => {
+      const restql = createRestQL()
+      const firstResponse = deferred()
+      fetchMock
+        .mockReturnValueOnce(firstResponse.promise)
+        .mockResolvedValueOnce(jsonResponse({ data: { user_id: '2' } }))
+
+      const promise = restql.execute(operation, {}, { parallel: true })
+      await vi.waitFor(() => expect(fetchMock).toHaveBeenCalledTimes(2))
+
+      firstResponse.resolve(jsonResponse({ data: { user_id: '1' } }))
+      const result = await promise
+
+      expect(Object.keys(result.shapedData)).toEqual(['first', 'second'])
+      expect(result.shapedData).toEqual({ first: { id: '1' }, second: { id: '2' } })
+    })
+  })
+  it('should pass exported values to the following mutations', async () => {
+    const restql = createRestQL()
+    fetchMock
+      .mockResolvedValueOnce(jsonResponse({ data: { user_id: '42' } }))
+      .mockResolvedValueOnce(jsonResponse({ data: { post_id: '7' } }))
+
+    const result = await restql.execute(`
+      mutation ArchiveAndPost($userId: String!) {
+        archiveUser(id: 42) { id @export(as: "userId") }
+        createPost(userId: $userId, title: "Archived") { id }
+      }
+    `)
+
+    expect(result.shapedData).toEqual({ archiveUser: { id: '42' }, createPost: { id: '7' } })
+    expect(fetchMock.mock.calls[1][0]).toBe('https://api.example.com/users/42/posts')
+    await expect(
+      restql.execute('mutation A { archiveUser(id: 42) { id @export(as: "userId") } }', {}, { parallel: true })
+    ).rejects.toThrow('@export cannot be used when mutations run in parallel')
+  })
+  describe('cache invalidation', () => {
+    it('should invalidate cached queries of the mutated resource by id', async () => {
+      const restql = createRestQL()
+      fetchMock.mockImplementation(async () => jsonResponse({ data: { data: [{ user_id: '1' }], user_id: '1' } }))
+
+      await restql.execute('query GetUser { user(id: 1) { id } }')
+      await restql.execute('query OtherUser { user(id: 3) { id } }')
+      await restql.execute('query Users { user { id } }')
+      expect(fetchMock).toHaveBeenCalledTimes(3)
+
+      await restql.execute('mutation RemoveUser { deleteUser(id: 1) { id } }')
+      expect(fetchMock).toHaveBeenCalledTimes(4)
+
+      await restql.execute('query OtherUser { user(id: 3) { id } }')
+      expect(fetchMock).toHaveBeenCalledTimes(4)
+      await restql.execute('query GetUser { user(id: 1) { id } }')
+      await restql.execute('query Users { user { id } }')
+      expect(fetchMock).toHaveBeenCalledTimes(6)
+    })
+
+    it('should invalidate the targets declared with @invalidates', async () => {
+      const restql = createRestQL()
+      fetchMock.mockImplementation(async () => jsonResponse({ data: { data: [{ user_id: '1' }], post_id: '7' } }))
+
+      await restql.execute('query GetUser { user(id: 1) { id } }')
+      await restql.execute('query GetPosts { user(id: 1) { posts { id } } }')
+      await restql.execute('mutation CreatePost { createPost(userId: "1") { id } }')
+      expect(fetchMock).toHaveBeenCalledTimes(3)
+
+      await restql.execute('query GetUser { user(id: 1) { id } }')
+      expect(fetchMock).toHaveBeenCalledTimes(3)
+      await restql.execute('query GetPosts { user(id: 1) { posts { id } } }')
+      expect(fetchMock).toHaveBeenCalledTimes(4)
+    })
+  })
+  describe('normalized cache', () => {
+    const normalizedSdl = `
+      type User {
+        id: Int
+        name: String
+        email: String
+
+        @key("id")
+        @endpoint(GET, "/users", "data")
+        @endpoint(PUT, "/users/{id}", "data")
+        @endpoint(DELETE, "/users/{id}", "data")
+      }
+    `
+
+    const createNormalizedRestQL = () =>
+      new RestQL(
+        normalizedSdl,
+        { default: 'https://api.example.com' },
+        { batchInterval: 0, maxRetries: 0, normalizedCache: true }
+      )
+
+    it('should answer queries for a single entity from entities fetched by other queries', async () => {
+      const restql = createNormalizedRestQL()
+      fetchMock.mockResolvedValueOnce(
+        jsonResponse({ data: [{ id: 1, name: 'Jane', email: 'jane@example.com' }, { id: 2, name: 'John' }] })
+      )
+
+      await restql.execute('query Users { user(limit: 10) { id name email } }')
+      const result = await restql.execute('query GetUser { user(id: 1) { name author: email } }')
+
+      expect(result.shapedData).toEqual({ user: { name: 'Jane', author: 'jane@example.com' } })
+      expect(fetchMock).toHaveBeenCalledTimes(1)
+    })
+
+    it('should fetch when a cached entity lacks a requested field', async () => {
+      const restql = createNormalizedRestQL()
+      fetchMock
+        .mockResolvedValueOnce(jsonResponse({ data: [{ id: 1, name: 'Jane' }] }))
+        .mockResolvedValueOnce(jsonResponse({ data: { id: 1, email: 'jane@example.com' } }))
+
+      await restql.execute('query Users { user { id name } }')
+      const result = await restql.execute('query GetUser { user(id: 1) { email } }')
+
+      expect(result.shapedData).toEqual({ user: { email: 'jane@example.com' } })
+      expect(fetchMock).toHaveBeenCalledTimes(2)
+    })
+
+    it('should update cached queries with the entities returned by mutations', async () => {
+      const restql = createNormalizedRestQL()
+      fetchMock
+        .mockResolvedValueOnce(jsonResponse({ data: [{ id: 1, name: 'Jane' }, { id: 2, name: 'John' }] }))
+        .mockResolvedValueOnce(jsonResponse({ data: { id: 2, name: 'Johnny' } }))
+
+      await restql.execute('query Users { user(limit: 10) { id name } }')
+      await restql.execute('mutation RenameUser { updateUser(name: "Johnny") { id name } }')
+      const result = await restql.execute('query GetUser { user(id: 2) { id name } }')
+
+      expect(result.shapedData).toEqual({ user: { id: 2, name: 'Johnny' } })
+      expect(fetchMock).toHaveBeenCalledTimes(2)
+    })
+
+    it('should evict the entities of deleted objects', async () => {
+      const restql = createNormalizedRestQL()
+      fetchMock
+        .mockResolvedValueOnce(jsonResponse({ data: [{ id: 1, name: 'Jane' }, { id: 2, name: 'John' }] }))
+        .mockResolvedValueOnce(jsonResponse({ data: { id: 1, name: 'Jane' } }))
+        .mockResolvedValueOnce(jsonResponse({ data: null }))
+
+      await restql.execute('query Users { user(limit: 10) { id name } }')
+      await restql.execute('query GetUser { user(id: 1) { id name } }')
+      await restql.execute('mutation DeleteUser { deleteUser(id: 1) { id name } }')
+      expect(fetchMock).toHaveBeenCalledTimes(2)
+
+      await restql.execute('query GetUser { user(id: 1) { id name } }')
+      await restql.execute('query GetUser { user(id: 2) { id name } }')
+
+      expect(fetchMock).toHaveBeenCalledTimes(3)
+      expect(fetchMock.mock.calls[2][0]).toBe('https://api.example.com/users?id=1')
+    })
+  })
+  describe('cache policies', () => {
+    const cachedSdl = `
+      type User {
+        id: Int
+        name: String
+
+        @cache(ttl: 1000, swr: 5000)
+        @endpoint(GET, "/users", "data")
+      }
+    `
+
+    const createCachedRestQL = () =>
+      new RestQL(cachedSdl, { default: 'https://api.example.com' }, { batchInterval: 0, maxRetries: 0 })
+
+    it('should serve stale results while revalidating them in the background', async () => {
+      const now = Date.now()
+      const dateNow = vi.spyOn(Date, 'now').mockReturnValue(now)
+      try {
+        const restql = createCachedRestQL()
+        fetchMock
+          .mockResolvedValueOnce(jsonResponse({ data: { name: 'Jane' } }))
+          .mockResolvedValueOnce(jsonResponse({ data: { name: 'Janet' } }))
+          .mockResolvedValueOnce(jsonResponse({ data: { name: 'Janine' } }))
+        const query = 'query GetUser { user(id: 1) { name } }'
+
+        await restql.execute(query)
+        dateNow.mockReturnValue(now + 2000)
+        expect((await restql.execute(query)).shapedData).toEqual({ user: { name: 'Jane' } })
+        await vi.waitFor(() => expect(fetchMock).toHaveBeenCalledTimes(2))
+        await vi.waitFor(async () =>
+          expect((await restql.execute(query)).shapedData).toEqual({ user: { name: 'Janet' } })
+        )
+        expect(fetchMock).toHaveBeenCalledTimes(2)
+
+        dateNow.mockReturnValue(now + 10000)
+        expect((await restql.execute(query)).shapedData).toEqual({ user: { name: 'Janine' } })
+        expect(fetchMock).toHaveBeenCalledTimes(3)
+      } finally {
+        dateNow.mockRestore()
+      }
+    })
+
+    it('should follow the fetch policy of each call', async () => {
+      const restql = createCachedRestQL()
+      fetchMock.mockImplementation(async () => jsonResponse({ data: { name: 'Jane' } }))
+      const query = 'query GetUser { user(id: 1) { name } }'
+
+      await expect(restql.execute(query, {}, { fetchPolicy: 'cache-only' })).rejects.toThrow(CacheMissError)
+      expect(fetchMock).not.toHaveBeenCalled()
+
+      await restql.execute(query, {}, { fetchPolicy: 'network-only' })
+      await restql.execute(query, {}, { fetchPolicy: 'network-only' })
+      expect(fetchMock).toHaveBeenCalledTimes(2)
+
+      const cachedResult = await restql.execute(query, {}, { fetchPolicy: 'cache-only' })
+      expect(cachedResult.shapedData).toEqual({ user: { name: 'Jane' } })
+      expect(fetchMock).toHaveBeenCalledTimes(2)
+
+      await restql.execute(query, {}, { fetchPolicy: 'cache-and-network' })
+      await vi.waitFor(() => expect(fetchMock).toHaveBeenCalledTimes(3))
+    })
+  })
+  describe('HTTP caching', () => {
+    it('should revalidate expired results with their ETag and keep them on 304', async () => {
+      const now = Date.now()
+      const dateNow = vi.spyOn(Date, 'now').mockReturnValue(now)
+      try {
+        const restql = createRestQL()
+        fetchMock
+          .mockResolvedValueOnce(
+            new Response(JSON.stringify({ data: { data: [{ user_id: '1' }] } }), {
+              status: 200,
+              headers: { ETag: '"v1"', 'Cache-Control': 'max-age=60' }
+            })
+          )
+          .mockResolvedValueOnce(new Response(null, { status: 304, headers: { 'Cache-Control': 'max-age=60' } }))
+        const query = 'query GetUser { user(id: 1) { id } }'
+
+        await restql.execute(query)
+        dateNow.mockReturnValue(now + 30000)
+        await restql.execute(query)
+        expect(fetchMock).toHaveBeenCalledTimes(1)
+
+        dateNow.mockReturnValue(now + 61000)
+        const result = await restql.execute(query)
+        expect(result.shapedData).toEqual({ user: { id: '1' } })
+        expect(fetchMock).toHaveBeenCalledTimes(2)
+        expect(fetchMock.mock.calls[1][1].headers['If-None-Match']).toBe('"v1"')
+
+        dateNow.mockReturnValue(now + 90000)
+        await restql.execute(query)
+        expect(fetchMock).toHaveBeenCalledTimes(2)
+      } finally {
+        dateNow.mockRestore()
+      }
+    })
+
+    it('should not cache responses marked no-store', async () => {
+      const restql = createRestQL()
+      fetchMock.mockImplementation(async () =>
+        new Response(JSON.stringify({ data: { data: [{ user_id: '1' }] } }), {
+          status: 200,
+          headers: { 'Cache-Control': 'no-store' }
+        })
+      )
+
+      await restql.execute('query GetUser { user(id: 1) { id } }')
+      await restql.execute('query GetUser { user(id: 1) { id } }')
+      expect(fetchMock).toHaveBeenCalledTimes(2)
+    })
+  })
+  describe('batching', () => {
+    const batchedSdl = `
+      type User {
+        id: String @from("user_id")
+
+        @endpoint(GET, "/users", "data[0]")
+        @batch(param: "ids", key: "id", field: "user_id", path: "data", separator: ",")
+      }
+    `
+
+    it('should combine the top-level queries of an operation into one request', async () => {
+      const restql = new RestQL(batchedSdl, { default: 'https://api.example.com' }, { batchInterval: 0, maxRetries: 0 })
+      fetchMock.mockResolvedValueOnce(jsonResponse({ data: [{ user_id: '1' }, { user_id: '2' }] }))
+
+      const result = await restql.execute(
+        'query GetUsers { first: user(id: "1") { id } second: user(id: "2") { id } }'
+      )
+
+      expect(fetchMock).toHaveBeenCalledTimes(1)
+      expect(fetchMock.mock.calls[0][0]).toBe('https://api.example.com/users?ids=1%2C2')
+      expect(result.shapedData).toEqual({ first: { id: '1' }, second: { id: '2' } })
+    })
+  })
+  describe('nested resources', () => {
+    const nestedSdl = (userDirectives: string) => `
+      type User {
+        id: String @from("user_id")
+
+        @endpoint(GET, "/users", "data[0]")
+        ${userDirectives}
+      }
+
+      type Post {
+        id: String @from("post_id")
+        author: User @from("author_id")
+
+        @endpoint(GET, "/posts", "data")
+      }
+    `
+    const posts = { data: [{ post_id: 'a', author_id: '1' }, { post_id: 'b', author_id: '2' }, { post_id: 'c', author_id: '1' }] }
+    const query = 'query GetPosts { post { id author { id } } }'
+
+    it('should resolve each distinct parent reference once', async () => {
+      const restql = new RestQL(nestedSdl(''), { default: 'https://api.example.com' }, { batchInterval: 0, maxRetries: 0 })
+      fetchMock.mockImplementation(async (url: string) =>
+        url.includes('/posts')
+          ? jsonResponse(posts)
+          : jsonResponse({ data: [{ user_id: new URL(url).searchParams.get('id') }] })
+      )
+
+      const result = await restql.execute(query)
+
+      expect(fetchMock.mock.calls.map(([url]) => url)).toEqual([
+        'https://api.example.com/posts',
+        'https://api.example.com/users?id=1',
+        'https://api.example.com/users?id=2'
+      ])
+      expect(result.shapedData.post.map((post: any) => post.author.id)).toEqual(['1', '2', '1'])
+    })
+
+    it('should resolve the references of all parent items with one batched request', async () => {
+      const restql = new RestQL(
+        nestedSdl('@batch(param: "ids", key: "id", field: "user_id", path: "data", separator: ",")'),
+        { default: 'https://api.example.com' },
+        { batchInterval: 0, maxRetries: 0 }
+      )
+      fetchMock
+        .mockResolvedValueOnce(jsonResponse(posts))
+        .mockResolvedValueOnce(jsonResponse({ data: [{ user_id: '1' }, { user_id: '2' }] }))
+
+      const result = await restql.execute(query)
+
+      expect(fetchMock).toHaveBeenCalledTimes(2)
+      expect(fetchMock.mock.calls[1][0]).toBe('https://api.example.com/users?ids=1%2C2')
+      expect(result.shapedData.post.map((post: any) => post.author.id)).toEqual(['1', '2', '1'])
+    })
+
+    it('should pass parent fields to the nested endpoint declared with @resolve', async () => {
+      const restql = new RestQL(
+        `
+          type User {
+            id: String @from("user_id")
+            posts: [Post] @resolve(args: { userId: "$parent.user_id", limit: 2 })
+
+            @endpoint(GET, "/users", "data")
+          }
+
+          type Post {
+            id: String @from("post_id")
+
+            @endpoint(GET, "/users/{userId}/posts", "data")
+          }
+        `,
+        { default: 'https://api.example.com' },
+        { batchInterval: 0, maxRetries: 0 }
+      )
+      fetchMock
+        .mockResolvedValueOnce(jsonResponse({ data: [{ user_id: '1' }, { user_id: '2' }] }))
+        .mockResolvedValueOnce(jsonResponse({ data: [{ post_id: 'a' }] }))
+        .mockResolvedValueOnce(jsonResponse({ data: [{ post_id: 'b' }] }))
+
+      const result = await restql.execute('query GetUsers { user { id posts { id } } }')
+
+      expect(fetchMock.mock.calls.map(([url]) => url)).toEqual([
+        'https://api.example.com/users',
+        'https://api.example.com/users/1/posts?limit=2',
+        'https://api.example.com/users/2/posts?limit=2'
+      ])
+      expect(result.shapedData.user).toEqual([
+        { id: '1', posts: [{ id: 'a' }] },
+        { id: '2', posts: [{ id: 'b' }] }
+      ])
+    })
+
+    it('should only batch the loads of fields with the same resource type and selection', async () => {
+      const restql = new RestQL(
+        `
+          type User {
+            id: String @from("user_id")
+
+            @endpoint(GET, "/users", "data[0]")
+          }
+
+          type Admin {
+            id: String @from("admin_id")
+
+            @endpoint(GET, "/admins", "data[0]")
+          }
+
+          type Post {
+            author: User @from("author_id")
+
+            @endpoint(GET, "/posts", "data")
+          }
+
+          type Comment {
+            author: Admin @from("author_id")
+
+            @endpoint(GET, "/comments", "data")
+          }
+        `,
+        { default: 'https://api.example.com' },
+        { batchInterval: 0, maxRetries: 0 }
+      )
+      fetchMock.mockImplementation(async (url: string) => {
+        const { pathname, searchParams } = new URL(url)
+        if (pathname === '/posts' || pathname === '/comments') {
+          return jsonResponse({ data: [{ author_id: '1' }] })
+        }
+        const idField = pathname === '/users' ? 'user_id' : 'admin_id'
+        return jsonResponse({ data: [{ [idField]: `${pathname}/${searchParams.get('id')}` }] })
+      })
+
+      const result = await restql.execute(
+        'query GetFeed { post { author { id } } comment { author { id } } other: post { author { id } } }'
+      )
+
+      expect(result.shapedData).toEqual({
+        post: [{ author: { id: '/users/1' } }],
+        comment: [{ author: { id: '/admins/1' } }],
+        other: [{ author: { id: '/users/1' } }]
+      })
+      expect(fetchMock.mock.calls.map(([url]) => url).sort()).toEqual([
+        'https://api.example.com/admins?id=1',
+        'https://api.example.com/comments',
+        'https://api.example.com/posts',
+        'https://api.example.com/users?id=1'
+      ])
+    })
+
+    it('should load each key of a list of references', async () => {
+      const restql = new RestQL(
+        `
+          type Post {
+            id: String @from("post_id")
+
+            @endpoint(GET, "/posts", "data[0]")
+          }
+
+          type User {
+            posts: [Post] @from("post_ids")
+            drafts: [Post]
+
+            @endpoint(GET, "/users", "data")
+          }
+        `,
+        { default: 'https://api.example.com' },
+        { batchInterval: 0, maxRetries: 0 }
+      )
+      const warn = vi.spyOn(restql, 'warn')
+      fetchMock.mockImplementation(async (url: string) =>
+        url.includes('/posts')
+          ? jsonResponse({ data: [{ post_id: new URL(url).searchParams.get('id') }] })
+          : jsonResponse({ data: { post_ids: [1, 2, 1] } })
+      )
+
+      const result = await restql.execute('query GetUser { user(id: 1) { posts { id } drafts { id } } }')
+
+      expect(result.shapedData.user).toEqual({ posts: [{ id: '1' }, { id: '2' }, { id: '1' }], drafts: null })
+      expect(fetchMock.mock.calls.map(([url]) => url)).toEqual([
+        'https://api.example.com/users?id=1',
+        'https://api.example.com/posts?id=1',
+        'https://api.example.com/posts?id=2'
+      ])
+      expect(warn).toHaveBeenCalledWith(
+        'List field "drafts" of type [Post] has no @resolve, embedded items or references. Skipping.'
+      )
+    })
+
+    it('should shape embedded nested resources without a request', async () => {
+      const restql = new RestQL(nestedSdl(''), { default: 'https://api.example.com' }, { batchInterval: 0, maxRetries: 0 })
+      fetchMock.mockResolvedValueOnce(
+        jsonResponse({ data: [{ post_id: 'a', author_id: { user_id: '1' } }] })
+      )
+
+      const result = await restql.execute(query)
+
+      expect(fetchMock).toHaveBeenCalledTimes(1)
+      expect(result.shapedData.post).toEqual([{ id: 'a', author: { id: '1' } }])
+    })
+  })
+  describe('pagination', () => {
+    const paginatedSdl = `
+      type User {
+        id: String @from("user_id")
+
+        @endpoint(GET, "/users", "data")
+        @paginate(strategy: PAGE, pageSize: 2, maxPages: 2)
+      }
+    `
+    const createPaginatedRestQL = () =>
+      new RestQL(paginatedSdl, { default: 'https://api.example.com' }, { batchInterval: 0, maxRetries: 0 })
+    const page = (...ids: string[]) => jsonResponse({ data: ids.map((id) => ({ user_id: id })) })
+
+    it('should fetch up to maxPages pages into a connection', async () => {
+      const restql = createPaginatedRestQL()
+      fetchMock.mockResolvedValueOnce(page('1', '2')).mockResolvedValueOnce(page('3', '4'))
+
+      const result = await restql.execute('query GetUsers { user { id } }')
+
+      expect(fetchMock.mock.calls.map(([url]) => url)).toEqual([
+        'https://api.example.com/users?limit=2&page=1',
+        'https://api.example.com/users?limit=2&page=2'
+      ])
+      expect(result.shapedData.user).toEqual({
+        items: [{ id: '1' }, { id: '2' }, { id: '3' }, { id: '4' }],
+        pageInfo: { hasNextPage: true, endCursor: '3' }
+      })
+    })
+
+    it('should merge the next page into the cached connection with fetchMore', async () => {
+      const restql = createPaginatedRestQL()
+      fetchMock
+        .mockResolvedValueOnce(page('1', '2'))
+        .mockResolvedValueOnce(page('3', '4'))
+        .mockResolvedValueOnce(page('5'))
+      const query = 'query GetUsers { user { id } }'
+
+      await restql.execute(query)
+      const moreResult = await restql.fetchMore(query)
+      const cachedResult = await restql.execute(query)
+
+      expect(fetchMock).toHaveBeenCalledTimes(3)
+      expect(fetchMock.mock.calls[2][0]).toBe('https://api.example.com/users?limit=2&page=3')
+      expect(moreResult.shapedData.user.pageInfo).toEqual({ hasNextPage: false, endCursor: null })
+      expect(cachedResult.shapedData.user.items.map((user: any) => user.id)).toEqual(['1', '2', '3', '4', '5'])
+
+      await restql.fetchMore(query)
+      expect(fetchMock).toHaveBeenCalledTimes(3)
+    })
+
+    it('should iterate over the items of every page', async () => {
+      const restql = createPaginatedRestQL()
+      fetchMock.mockResolvedValueOnce(page('1', '2')).mockResolvedValueOnce(page('3'))
+
+      const ids: string[] = []
+      for await (const user of restql.iterate('query GetUsers { user { id } }')) {
+        ids.push(user.id)
+      }
+
+      expect(ids).toEqual(['1', '2', '3'])
+      expect(fetchMock).toHaveBeenCalledTimes(2)
+    })
+
+    it('should stop iterating once the signal is aborted', async () => {
+      const restql = createPaginatedRestQL()
+      fetchMock.mockResolvedValueOnce(page('1', '2')).mockResolvedValueOnce(page('3', '4'))
+      const controller = new AbortController()
+
+      const ids: string[] = []
+      await expect(async () => {
+        for await (const user of restql.iterate('query GetUsers { user { id } }', {}, { signal: controller.signal })) {
+          ids.push(user.id)
+          controller.abort()
+        }
+      }).rejects.toThrow(AbortError)
+
+      expect(ids).toEqual(['1'])
+      expect(fetchMock).toHaveBeenCalledTimes(1)
+    })
+
+    it('should reject fetchMore for resources that are not paginated', async () => {
+      await expect(createRestQL().fetchMore('query GetUser { user { id } }')).rejects.toThrow(
+        'Resource "user" is not paginated'
+      )
+    })
+  })
+  describe('cancellation', () => {
+    // Never responds, but rejects with the abort reason like fetch does
+    const hangingFetch = (url: string, init: RequestInit) =>
+      new Promise((_resolve, reject) => {
+        init.signal?.addEventListener('abort', () => reject(init.signal?.reason))
+      })
+    // Sends its headers, but never finishes its body
+    const hangingBodyResponse = () => new Response(new ReadableStream({ start () {} }), { status: 200 })
+
+    it('should abort the requests of an operation when its signal is aborted', async () => {
+      fetchMock.mockImplementation(hangingFetch)
+      const controller = new AbortController()
+
+      const promise = createRestQL().execute('query GetUser { user { id } }', {}, { signal: controller.signal })
+      await vi.waitFor(() => expect(fetchMock).toHaveBeenCalledTimes(1))
+      controller.abort()
+
+      await expect(promise).rejects.toThrow(new AbortError('Operation was aborted'))
+      expect(fetchMock.mock.calls[0][1].signal.aborted).toBe(true)
+    })
+
+    it('should not send the queries of an operation aborted before they are dispatched', async () => {
+      const restql = new RestQL(sdl, { default: 'https://api.example.com' }, { batchInterval: 10 })
+      const controller = new AbortController()
+
+      const promise = restql.execute('query GetUser { user { id } }', {}, { signal: controller.signal })
+      controller.abort()
+
+      await expect(promise).rejects.toThrow(AbortError)
+      expect(fetchMock).not.toHaveBeenCalled()
+    })
+
+    it('should reject with a TimeoutError once the operation timeout elapses', async () => {
+      fetchMock.mockImplementation(hangingFetch)
+
+      await expect(
+        createRestQL().execute('query GetUser { user { id } }', {}, { timeout: 10 })
+      ).rejects.toThrow(new TimeoutError('Operation timed out after 10ms'))
+    })
+
+    it('should time out requests after the timeout option', async () => {
+      const restql = new RestQL(sdl, { default: 'https://api.example.com' }, { batchInterval: 0, timeout: 10 })
+      fetchMock.mockImplementation(hangingFetch)
+
+      await expect(restql.execute('query GetUser { user { id } }')).rejects.toThrow(
+        new TimeoutError('Request to https://api.example.com/users timed out after 10ms')
+      )
+    })
+
+    it('should time out requests whose body does not finish', async () => {
+      const restql = new RestQL(sdl, { default: 'https://api.example.com' }, { batchInterval: 0, timeout: 10 })
+      fetchMock.mockImplementation(async () => hangingBodyResponse())
+
+      await expect(restql.execute('query GetUser { user { id } }')).rejects.toThrow(
+        new TimeoutError('Request to https://api.example.com/users timed out after 10ms')
+      )
+      await expect(restql.execute('mutation Archive { archiveUser(id: 1) { id } }')).rejects.toThrow(
+        new TimeoutError('Request to https://api.example.com/users/1/archive timed out after 10ms')
+      )
+      await expect(
+        createRestQL().execute('mutation Archive { archiveUser(id: 1) { id } }', {}, { timeout: 10 })
+      ).rejects.toThrow(new TimeoutError('Operation timed out after 10ms'))
+    })
+  })
+  describe('middleware', () => {
+    it('should pass requests through the middleware of the options and of use()', async () => {
+      const contexts: Array<{ name: string; resourceName: string; operationName?: string }> = []
+      const restql = new RestQL(sdl, { default: 'https://api.example.com' }, {
+        batchInterval: 0,
+        middleware: [
+          (context, next) => {
+            contexts.push({ name: 'option', resourceName: context.resourceName, operationName: context.operationName })
+            return next()
+          }
+        ]
+      }).use((context, next) => {
+        contexts.push({ name: 'use', resourceName: context.resourceName, operationName: context.operationName })
+        return next()
+      })
+      fetchMock.mockResolvedValueOnce(jsonResponse({ data: { data: [{ user_id: '1' }] } }))
+
+      await restql.execute('query GetUser { user { id } }')
+
+      expect(contexts).toEqual([
+        { name: 'option', resourceName: 'user', operationName: 'GetUser' },
+        { name: 'use', resourceName: 'user', operationName: 'GetUser' }
+      ])
+    })
+
+    it('should name the resource of nested resources and mutations by its schema key', async () => {
+      const resourceNames: string[] = []
+      const restql = new RestQL(`
+        type User {
+          name: String
+
+          @endpoint(GET, "/users", "data")
+          @endpoint(POST, "/users", "data")
+        }
+
+        type Post {
+          author: User @from("author_id")
+
+          @endpoint(GET, "/posts", "data")
+        }
+
+        type Mutation {
+          archiveUser(id: Int!): User @endpoint(POST, "/users/{id}/archive", "data")
+        }
+      `, { default: 'https://api.example.com' }, { batchInterval: 0, maxRetries: 0 }).use((context, next) => {
+        resourceNames.push(context.resourceName)
+        return next()
+      })
+      fetchMock.mockImplementation(async (url: string) =>
+        jsonResponse({ data: url.includes('/posts') ? { author_id: '1' } : { name: 'Jane' } })
+      )
+
+      await restql.execute('query GetPost { post { author { name } } }')
+      await restql.execute('mutation Archive { archiveUser(id: 1) { name } createUser(name: "Jane") { name } }')
+
+      expect(resourceNames).toEqual(['post', 'user', 'user', 'user'])
+    })
+  })
+})
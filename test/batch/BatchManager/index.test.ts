@@ -55,6 +55,31 @@ describe('BatchManager', () => {
     expect(mockOperation).not.toHaveBeenCalled()
   })
 
+  it('should remove operations whose signal is aborted while queued', async () => {
+    const mockOperation = vi.fn().mockResolvedValue('result')
+    const controller = new AbortController()
+    const aborted = batchManager.add('key1', mockOperation, controller.signal)
+    const kept = batchManager.add('key1', mockOperation)
+
+    controller.abort(new Error('Aborted'))
+    vi.advanceTimersByTime(100)
+
+    await expect(aborted).rejects.toThrow('Aborted')
+    await expect(kept).resolves.toBe('result')
+    expect(mockOperation).toHaveBeenCalledTimes(1)
+  })
+
+  it('should stop following the signal once the operation settles', async () => {
+    const controller = new AbortController()
+    const removeEventListener = vi.spyOn(controller.signal, 'removeEventListener')
+    const promise = batchManager.add('key1', vi.fn().mockResolvedValue('result'), controller.signal)
+
+    vi.advanceTimersByTime(100)
+
+    await expect(promise).resolves.toBe('result')
+    expect(removeEventListener).toHaveBeenCalledWith('abort', expect.any(Function))
+  })
+
   it('should handle errors in operations', async () => {
     const mockOperation = vi.fn().mockRejectedValue(new Error('Test error'))
     const promise = batchManager.add('key1', mockOperation)
@@ -84,4 +109,85 @@ describe('BatchManager', () => {
 
     expect(mockOperation).toHaveBeenCalledTimes(5)
   })
+
+  describe('load', () => {
+    it('should load the items added within the batch interval with a single call', async () => {
+      const loadBatch = vi.fn(async (items: number[]) => items.map((item) => item * 10))
+
+      const promises = [1, 2, 3, 4].map((item) => batchManager.load('users', item, loadBatch))
+      vi.advanceTimersByTime(100)
+
+      expect(await Promise.all(promises)).toEqual([10, 20, 30, 40])
+      // The first batch is loaded as soon as it is full (maxBatchSize: 3)
+      expect(loadBatch.mock.calls.map(([items]) => items)).toEqual([[1, 2, 3], [4]])
+    })
+
+    it('should honor a per-load maximum batch size', async () => {
+      const loadBatch = vi.fn(async (items: number[]) => items)
+
+      const promises = [1, 2].map((item) => batchManager.load('users', item, loadBatch, 1))
+
+      expect(await Promise.all(promises)).toEqual([1, 2])
+      expect(loadBatch).toHaveBeenCalledTimes(2)
+    })
+
+    it('should reject only the items whose result is an error', async () => {
+      const loadBatch = async (items: number[]) =>
+        items.map((item) => (item === 2 ? new Error('Not found') : item))
+
+      const first = batchManager.load('users', 1, loadBatch)
+      const second = batchManager.load('users', 2, loadBatch)
+      vi.advanceTimersByTime(100)
+
+      await expect(first).resolves.toBe(1)
+      await expect(second).rejects.toThrow('Not found')
+    })
+
+    it('should leave items whose signal is aborted out of their pending batch', async () => {
+      const loadBatch = vi.fn(async (items: number[]) => items)
+      const controller = new AbortController()
+
+      const aborted = batchManager.load('users', 1, loadBatch, undefined, controller.signal)
+      const kept = batchManager.load('users', 2, loadBatch)
+      controller.abort(new Error('Aborted'))
+      vi.advanceTimersByTime(100)
+
+      await expect(aborted).rejects.toThrow('Aborted')
+      await expect(kept).resolves.toBe(2)
+      expect(loadBatch.mock.calls.map(([items]) => items)).toEqual([[2]])
+    })
+
+    it('should stop following the signal of loaded items', async () => {
+      const controller = new AbortController()
+      const removeEventListener = vi.spyOn(controller.signal, 'removeEventListener')
+      const promise = batchManager.load('users', 1, async (items: number[]) => items, undefined, controller.signal)
+
+      vi.advanceTimersByTime(100)
+
+      await expect(promise).resolves.toBe(1)
+      expect(removeEventListener).toHaveBeenCalledWith('abort', expect.any(Function))
+    })
+
+    it('should abort a dispatched batch once every item is aborted', async () => {
+      let batchSignal: AbortSignal | undefined
+      const loadBatch = (items: number[], signal: AbortSignal) => {
+        batchSignal = signal
+        return new Promise<number[]>(() => {})
+      }
+      const controllers = [new AbortController(), new AbortController()]
+
+      const promises = controllers.map((controller, index) =>
+        batchManager.load('users', index, loadBatch, undefined, controller.signal)
+      )
+      vi.advanceTimersByTime(100)
+
+      controllers[0].abort(new Error('Aborted'))
+      await expect(promises[0]).rejects.toThrow('Aborted')
+      expect(batchSignal?.aborted).toBe(false)
+
+      controllers[1].abort(new Error('Aborted'))
+      await expect(promises[1]).rejects.toThrow('Aborted')
+      expect(batchSignal?.aborted).toBe(true)
+    })
+  })
 })
@@ -0,0 +1,127 @@
+import { expect, describe, beforeEach, afterEach, vi, it } from 'vitest'
+import { CacheManager } from '../../../src/core/cache/CacheManager'
+import { LRUCacheStore } from '../../../src/core/cache/LRUCacheStore'
+
+describe('CacheManager', () => {
+  let cacheManager: CacheManager
+
+  beforeEach(() => {
+    cacheManager = new CacheManager(1000)
+  })
+
+  it('should invalidate every item carrying one of the given tags', async () => {
+    await cacheManager.set('user:1', 'first', undefined, ['user', 'user:id=1'])
+    await cacheManager.set('user:2', 'second', undefined, ['user', 'user:id=2'])
+    await cacheManager.set('post:1', 'post', undefined, ['post'])
+    await cacheManager.set('untagged', 'value')
+
+    expect(await cacheManager.invalidateTags(['user:id=1', 'post'])).toBe(2)
+    expect(await cacheManager.keys()).toEqual(['user:2', 'untagged'])
+  })
+
+  it('should delegate to the given store and drop expired items', async () => {
+    const cacheStore = new LRUCacheStore(10)
+    cacheManager = new CacheManager(1000, cacheStore)
+
+    await cacheManager.set('fresh', 'value')
+    await cacheManager.set('expired', 'value', -1)
+
+    expect(await cacheStore.keys()).toEqual(['fresh', 'expired'])
+    expect(await cacheManager.get('fresh')).toBe('value')
+    expect(await cacheManager.has('expired')).toBe(false)
+    expect(await cacheStore.keys()).toEqual(['fresh'])
+  })
+
+  it('should serve expired items as stale during their stale-while-revalidate period', async () => {
+    const now = Date.now()
+    const dateNow = vi.spyOn(Date, 'now').mockReturnValue(now)
+    try {
+      await cacheManager.set('user', 'value', 1000, [], { staleWhileRevalidate: 5000 })
+
+      dateNow.mockReturnValue(now + 2000)
+      expect(await cacheManager.getEntry('user')).toEqual({ data: 'value', isStale: true })
+      expect(await cacheManager.get('user')).toBeNull()
+
+      dateNow.mockReturnValue(now + 7000)
+      expect(await cacheManager.getEntry('user')).toBeNull()
+      expect(await cacheManager.keys()).toEqual([])
+    } finally {
+      dateNow.mockRestore()
+    }
+  })
+
+  describe('limits', () => {
+    it('should evict the least recently used items beyond the maximum number of items', async () => {
+      cacheManager = new CacheManager(1000, undefined, { maxEntries: 2 })
+      await cacheManager.set('a', 'first')
+      await cacheManager.set('b', 'second')
+      await cacheManager.get('a')
+      await cacheManager.set('c', 'third')
+
+      expect(await cacheManager.keys()).toEqual(['a', 'c'])
+      expect(cacheManager.getStats()).toMatchObject({ entries: 2, hits: 1, evictions: 1 })
+    })
+
+    it('should evict items until the approximate size fits the byte budget', async () => {
+      cacheManager = new CacheManager(1000, undefined, { maxBytes: 300 })
+      await cacheManager.set('a', 'x'.repeat(50))
+      await cacheManager.set('b', 'x'.repeat(50))
+      await cacheManager.set('c', 'x'.repeat(50))
+
+      expect(await cacheManager.keys()).toEqual(['c'])
+      expect(cacheManager.getStats().bytes).toBeLessThanOrEqual(300)
+      expect(cacheManager.getStats().evictions).toBe(2)
+    })
+
+    it('should forget the items evicted by the store', async () => {
+      cacheManager = new CacheManager(1000, new LRUCacheStore(2), { maxBytes: 1000 })
+      await cacheManager.set('a', 'x'.repeat(100))
+      await cacheManager.set('b', 'x'.repeat(100))
+      await cacheManager.set('c', 'x'.repeat(100))
+      await cacheManager.set('d', 'x'.repeat(100))
+
+      expect(await cacheManager.keys()).toEqual(['c', 'd'])
+      expect(cacheManager.getStats()).toMatchObject({ entries: 2, evictions: 2 })
+    })
+  })
+
+  describe('sweep', () => {
+    beforeEach(() => {
+      vi.useFakeTimers()
+    })
+    afterEach(() => {
+      cacheManager.stopSweep()
+      vi.useRealTimers()
+    })
+
+    it('should periodically remove expired items until stopped', async () => {
+      await cacheManager.set('short', 'value', 100)
+      await cacheManager.set('long', 'value', 10000)
+      cacheManager.startSweep(500)
+
+      await vi.advanceTimersByTimeAsync(500)
+      expect(cacheManager.getStats()).toMatchObject({ entries: 1, expirations: 1 })
+
+      cacheManager.stopSweep()
+      await vi.advanceTimersByTimeAsync(20000)
+      expect(cacheManager.getStats()).toMatchObject({ entries: 1, expirations: 1 })
+    })
+
+    it('should keep items with validators for their revalidation window only', async () => {
+      cacheManager = new CacheManager(1000, undefined, { revalidationWindow: 30 })
+      for (let index = 0; index < 5; index++) {
+        await cacheManager.set(`user:${index}`, 'value', 10, [], { validators: { etag: `"${index}"` } })
+      }
+      cacheManager.startSweep(20)
+
+      await vi.advanceTimersByTimeAsync(20)
+      expect(await cacheManager.getEntry('user:0')).toBeNull()
+      expect(await cacheManager.getRevalidationEntry('user:0')).toEqual({ data: 'value', validators: { etag: '"0"' } })
+      expect(cacheManager.getStats()).toMatchObject({ entries: 5, expirations: 0 })
+
+      await vi.advanceTimersByTimeAsync(40)
+      expect(await cacheManager.getRevalidationEntry('user:0')).toBeNull()
+      expect(cacheManager.getStats()).toMatchObject({ entries: 0, expirations: 5 })
+    })
+  })
+})
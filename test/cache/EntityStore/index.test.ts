@@ -0,0 +1,88 @@
+import { expect, describe, beforeEach, it } from 'vitest'
+import { EntityStore } from '../../../src/core/cache/EntityStore'
+import { SDLParser } from '../../../src/core/parser/SDLParser'
+import { ParsedField } from '../../../src/core/types'
+
+describe('EntityStore', () => {
+  let entityStore: EntityStore
+
+  const schema = new SDLParser(`
+    type Post {
+      id: Int
+      title: String
+      author: Author
+
+      @key("id")
+      @endpoint(GET, "/posts", "data")
+    }
+
+    type Author {
+      id: Int
+      name: String
+
+      @key("id")
+    }
+  `).parseSDL()
+
+  const field = (name: string, fields?: { [key: string]: ParsedField }): ParsedField =>
+    fields ? { name, args: {}, fields } : { name, args: {}, value: true }
+
+  beforeEach(() => {
+    entityStore = new EntityStore(schema, 1000)
+  })
+
+  it('should share entities between the results of different queries', () => {
+    const postFields = {
+      title: field('title'),
+      id: field('id'),
+      author: field('author', { id: field('id'), name: field('name') })
+    }
+    const normalizedPost = entityStore.write(
+      { title: 'Hello', id: 1, author: { id: 5, name: 'Jane' } },
+      postFields,
+      'Post',
+      {}
+    )
+    expect(normalizedPost).toEqual({ __ref: 'post:1' })
+
+    entityStore.write({ id: 5, name: 'Janet' }, { id: field('id'), name: field('name') }, 'Author', {})
+
+    expect(entityStore.read(normalizedPost, postFields, {})).toEqual({
+      data: { title: 'Hello', id: 1, author: { id: 5, name: 'Janet' } }
+    })
+  })
+
+  it('should store fields by name so aliases read the same value', () => {
+    const normalizedPost = entityStore.write(
+      { heading: 'Hello', id: 1 },
+      { heading: { ...field('title'), alias: 'heading' }, id: field('id') },
+      'Post',
+      {}
+    )
+
+    expect(entityStore.read(normalizedPost, { title: field('title') }, {})).toEqual({
+      data: { title: 'Hello' }
+    })
+  })
+
+  it('should miss when a requested field is not stored', () => {
+    const normalizedPost = entityStore.write({ id: 1 }, { id: field('id') }, 'Post', {})
+
+    expect(entityStore.read(normalizedPost, { title: field('title') }, {})).toBeNull()
+  })
+
+  it('should reference the entity selected by its key argument', () => {
+    expect(entityStore.getEntityReference('post', { id: 1 })).toEqual({ __ref: 'post:1' })
+    expect(entityStore.getEntityReference('post', { id: 1, limit: 5 })).toBeNull()
+    expect(entityStore.getEntityReference('post', { title: 'Hello' })).toBeNull()
+  })
+
+  it('should evict the entity selected by its key', () => {
+    const normalizedPost = entityStore.write({ id: 1, title: 'Hello' }, { id: field('id'), title: field('title') }, 'Post', {})
+
+    expect(entityStore.evict('Post', { title: 'Hello' })).toBe(false)
+    expect(entityStore.evict('Post', { id: 1 })).toBe(true)
+    expect(entityStore.read(normalizedPost, { title: field('title') }, {})).toBeNull()
+    expect(entityStore.evict('Post', { id: 1 })).toBe(false)
+  })
+})
@@ -0,0 +1,37 @@
+import { expect, describe, beforeEach, afterEach, it } from 'vitest'
+import { promises as fs } from 'fs'
+import os from 'os'
+import path from 'path'
+import { FileSystemCacheStore } from '../../../src/core/cache/FileSystemCacheStore'
+
+describe('FileSystemCacheStore', () => {
+  let directory: string
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'restql-cache-'))
+  })
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true })
+  })
+
+  it('should persist items across store instances', async () => {
+    const item = { data: { user: { id: 1 } }, expiry: Date.now() + 1000, tags: ['user'] }
+    await new FileSystemCacheStore(directory).set('user:{"id":1}', item)
+
+    const cacheStore = new FileSystemCacheStore(directory)
+    expect(await cacheStore.get('user:{"id":1}')).toEqual(item)
+    expect(await cacheStore.keys()).toEqual(['user:{"id":1}'])
+
+    await cacheStore.delete('user:{"id":1}')
+    await cacheStore.delete('user:{"id":1}')
+    expect(await cacheStore.get('user:{"id":1}')).toBeUndefined()
+    expect(await cacheStore.keys()).toEqual([])
+  })
+
+  it('should treat a missing directory as an empty cache', async () => {
+    const cacheStore = new FileSystemCacheStore(path.join(directory, 'missing'))
+
+    expect(await cacheStore.keys()).toEqual([])
+    expect(await cacheStore.get('key')).toBeUndefined()
+  })
+})
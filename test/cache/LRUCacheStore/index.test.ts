@@ -0,0 +1,21 @@
+import { expect, describe, it } from 'vitest'
+import { LRUCacheStore } from '../../../src/core/cache/LRUCacheStore'
+
+describe('LRUCacheStore', () => {
+  const item = (data: string) => ({ data, expiry: Infinity })
+
+  it('should evict the least recently used item when full', async () => {
+    const cacheStore = new LRUCacheStore(2)
+    await cacheStore.set('a', item('first'))
+    await cacheStore.set('b', item('second'))
+    await cacheStore.get('a')
+
+    expect(await cacheStore.set('c', item('third'))).toEqual(['b'])
+    expect(await cacheStore.keys()).toEqual(['a', 'c'])
+    expect(await cacheStore.get('b')).toBeUndefined()
+  })
+
+  it('should reject invalid sizes', () => {
+    expect(() => new LRUCacheStore(0)).toThrow('maxEntries must be a positive integer')
+  })
+})
@@ -0,0 +1,605 @@
+import { expect, describe, beforeEach, vi, afterEach, it } from 'vitest'
+import { RestQLExecutor } from '../../../src/core/executor/RestQLExecutor'
+import { AbortError, NetworkError, TimeoutError, ValidationError } from '../../../src/core/validation/errors'
+import { HttpMethod, SchemaResource } from '../../../src/core/types'
+import { SDLParser } from '../../../src/core/parser/SDLParser'
+
+describe('RestQLExecutor', () => {
+  let executor: RestQLExecutor
+  let fetchMock: ReturnType<typeof vi.fn>
+
+  const userSchema: SchemaResource = {
+    fields: {},
+    endpoints: {
+      GET: { method: HttpMethod.GET, path: '/users' },
+      POST: { method: HttpMethod.POST, path: '/users' }
+    }
+  }
+  const query = { queryName: 'user', args: {}, fields: {} }
+
+  const jsonResponse = (status: number, body: any = {}, headers: { [key: string]: string } = {}) =>
+    new Response(JSON.stringify(body), { status, headers })
+
+  beforeEach(() => {
+    fetchMock = vi.fn()
+    vi.stubGlobal('fetch', fetchMock)
+    executor = new RestQLExecutor({
+      baseUrls: { default: 'https://api.example.com' },
+      headers: {},
+      maxRetries: 3,
+      retryDelay: 1
+    })
+  })
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('should retry transient failures and return the successful response', async () => {
+    fetchMock
+      .mockResolvedValueOnce(jsonResponse(502))
+      .mockRejectedValueOnce(new TypeError('socket hang up'))
+      .mockResolvedValueOnce(jsonResponse(200, { id: 1 }))
+
+    const result = await executor.execute(query, userSchema, {}, HttpMethod.GET)
+
+    expect(result).toEqual({ id: 1 })
+    expect(fetchMock).toHaveBeenCalledTimes(3)
+  })
+
+  it('should give up after maxRetries', async () => {
+    fetchMock.mockImplementation(async () => jsonResponse(503))
+
+    await expect(executor.execute(query, userSchema, {}, HttpMethod.GET)).rejects.toThrow(NetworkError)
+    expect(fetchMock).toHaveBeenCalledTimes(4)
+  })
+
+  it('should not retry client errors', async () => {
+    fetchMock.mockResolvedValue(jsonResponse(404))
+
+    await expect(executor.execute(query, userSchema, {}, HttpMethod.GET)).rejects.toThrow('status 404')
+    expect(fetchMock).toHaveBeenCalledTimes(1)
+  })
+
+  it('should not retry non-idempotent methods by default', async () => {
+    fetchMock.mockResolvedValue(jsonResponse(502))
+
+    await expect(executor.execute(query, userSchema, {}, HttpMethod.POST)).rejects.toThrow(NetworkError)
+    expect(fetchMock).toHaveBeenCalledTimes(1)
+  })
+
+  it('should honor a per-endpoint retry policy', async () => {
+    const schema: SchemaResource = {
+      fields: {},
+      endpoints: {
+        POST: { method: HttpMethod.POST, path: '/users', retry: { maxRetries: 1, idempotent: true } }
+      }
+    }
+    fetchMock.mockImplementation(async () => jsonResponse(502))
+
+    await expect(executor.execute(query, schema, {}, HttpMethod.POST)).rejects.toThrow(NetworkError)
+    expect(fetchMock).toHaveBeenCalledTimes(2)
+  })
+
+  it('should wait for the Retry-After delay on 429 responses', async () => {
+    vi.useFakeTimers()
+    try {
+      fetchMock
+        .mockResolvedValueOnce(jsonResponse(429, {}, { 'Retry-After': '2' }))
+        .mockResolvedValueOnce(jsonResponse(200, { id: 1 }))
+
+      const promise = executor.execute(query, userSchema, {}, HttpMethod.GET)
+
+      await vi.advanceTimersByTimeAsync(1999)
+      expect(fetchMock).toHaveBeenCalledTimes(1)
+
+      await vi.advanceTimersByTimeAsync(1)
+      await expect(promise).resolves.toEqual({ id: 1 })
+      expect(fetchMock).toHaveBeenCalledTimes(2)
+    } finally {
+      vi.useRealTimers()
+    }
+  })
+
+  it('should not wait longer than maxRetryDelay whatever the Retry-After delay', async () => {
+    executor = new RestQLExecutor({
+      baseUrls: { default: 'https://api.example.com' },
+      headers: {},
+      maxRetries: 1,
+      maxRetryDelay: 1000
+    })
+    vi.useFakeTimers()
+    try {
+      fetchMock
+        .mockResolvedValueOnce(jsonResponse(503, {}, { 'Retry-After': '3600' }))
+        .mockResolvedValueOnce(jsonResponse(200, { id: 1 }))
+
+      const promise = executor.execute(query, userSchema, {}, HttpMethod.GET)
+
+      await vi.advanceTimersByTimeAsync(1000)
+      await expect(promise).resolves.toEqual({ id: 1 })
+      expect(fetchMock).toHaveBeenCalledTimes(2)
+    } finally {
+      vi.useRealTimers()
+    }
+  })
+
+  it('should cancel the body of failed responses', async () => {
+    const failedResponse = jsonResponse(502)
+    fetchMock
+      .mockResolvedValueOnce(failedResponse)
+      .mockResolvedValueOnce(jsonResponse(200, { id: 1 }))
+
+    await executor.execute(query, userSchema, {}, HttpMethod.GET)
+
+    await expect(failedResponse.text()).rejects.toThrow()
+  })
+
+  it('should serialize typed arguments into the query string', async () => {
+    fetchMock.mockResolvedValue(jsonResponse(200, {}))
+
+    await executor.execute(
+      {
+        queryName: 'user',
+        args: {
+          limit: 10,
+          active: true,
+          deleted: null,
+          ids: [1, { $variable: 'secondId' }],
+          filter: { role: 'admin' }
+        },
+        fields: {}
+      },
+      userSchema,
+      { secondId: 2 },
+      HttpMethod.GET
+    )
+
+    const url = new URL(fetchMock.mock.calls[0][0])
+    expect(url.searchParams.get('limit')).toBe('10')
+    expect(url.searchParams.get('active')).toBe('true')
+    expect(url.searchParams.has('deleted')).toBe(false)
+    expect(url.searchParams.getAll('ids')).toEqual(['1', '2'])
+    expect(url.searchParams.get('filter')).toBe('{"role":"admin"}')
+  })
+
+  it('should send typed arguments as a JSON body', async () => {
+    fetchMock.mockResolvedValue(jsonResponse(200, {}))
+
+    await executor.execute(
+      { queryName: 'user', args: { age: 30, tags: ['a'], name: { $variable: 'name' } }, fields: {} },
+      userSchema,
+      { name: 'Jane' },
+      HttpMethod.POST
+    )
+
+    expect(JSON.parse(fetchMock.mock.calls[0][1].body)).toEqual({ age: 30, tags: ['a'], name: 'Jane' })
+  })
+  it('should send conditional headers and report the caching headers of the response', async () => {
+    fetchMock.mockResolvedValueOnce(
+      new Response(null, { status: 304, headers: { 'Cache-Control': 'public, max-age=60' } })
+    )
+
+    const result = await executor.executeConditional(query, userSchema, {}, HttpMethod.GET, {
+      etag: '"v1"',
+      lastModified: 'Wed, 21 Oct 2015 07:28:00 GMT'
+    })
+
+    expect(fetchMock.mock.calls[0][1].headers).toMatchObject({
+      'If-None-Match': '"v1"',
+      'If-Modified-Since': 'Wed, 21 Oct 2015 07:28:00 GMT'
+    })
+    expect(result).toEqual({
+      data: undefined,
+      cacheInfo: {
+        notModified: true,
+        validators: { etag: '"v1"', lastModified: 'Wed, 21 Oct 2015 07:28:00 GMT' },
+        maxAge: 60000,
+        noStore: false
+      }
+    })
+  })
+
+  it('should share one request between concurrent identical GET requests', async () => {
+    fetchMock.mockImplementation(async () => jsonResponse(200, { id: 1 }))
+
+    const results = await Promise.all([
+      executor.execute(query, userSchema, {}, HttpMethod.GET),
+      executor.execute(query, userSchema, {}, HttpMethod.GET),
+      executor.executeConditional(query, userSchema, {}, HttpMethod.GET, { etag: '"v1"' })
+    ])
+
+    expect(results[0]).toEqual({ id: 1 })
+    expect(results[1]).toEqual({ id: 1 })
+    expect(results[2].data).toEqual({ id: 1 })
+    // The conditional request has different headers
+    expect(fetchMock).toHaveBeenCalledTimes(2)
+
+    await executor.execute(query, userSchema, {}, HttpMethod.GET)
+    expect(fetchMock).toHaveBeenCalledTimes(3)
+  })
+
+  it('should not share requests of other methods', async () => {
+    fetchMock.mockImplementation(async () => jsonResponse(200, { id: 1 }))
+
+    await Promise.all([
+      executor.execute(query, userSchema, {}, HttpMethod.POST),
+      executor.execute(query, userSchema, {}, HttpMethod.POST)
+    ])
+
+    expect(fetchMock).toHaveBeenCalledTimes(2)
+  })
+  describe('batching', () => {
+    const schema = new SDLParser(`
+      type User {
+        id: Int
+
+        @endpoint(GET, "/users", "data[0]")
+        @batch(param: "ids", key: "id", path: "data", separator: ",")
+      }
+    `).parseSDL()
+    const userQuery = (id: number) => ({ queryName: 'user', args: { id }, fields: {} })
+
+    it('should combine concurrent keyed requests and split the response by key', async () => {
+      fetchMock.mockResolvedValueOnce(jsonResponse(200, { data: [{ id: 2 }, { id: 1 }] }))
+
+      const results = await Promise.all(
+        [1, 2, 1].map((id) => executor.execute(userQuery(id), schema.user, {}, HttpMethod.GET))
+      )
+
+      expect(fetchMock).toHaveBeenCalledTimes(1)
+      expect(fetchMock.mock.calls[0][0]).toBe('https://api.example.com/users?ids=1%2C2')
+      expect(results).toEqual([{ data: [{ id: 1 }] }, { data: [{ id: 2 }] }, { data: [{ id: 1 }] }])
+    })
+
+    it('should reject the requests whose key is missing from the response', async () => {
+      fetchMock.mockResolvedValueOnce(jsonResponse(200, { data: [{ id: 1 }] }))
+
+      const [found, missing] = await Promise.allSettled([
+        executor.execute(userQuery(1), schema.user, {}, HttpMethod.GET),
+        executor.execute(userQuery(3), schema.user, {}, HttpMethod.GET)
+      ])
+
+      expect(found).toEqual({ status: 'fulfilled', value: { data: [{ id: 1 }] } })
+      expect(missing).toMatchObject({ status: 'rejected', reason: expect.any(NetworkError) })
+    })
+
+    it('should only combine requests of the same operation', async () => {
+      const middleware = vi.fn((context, next) => next())
+      executor.use(middleware)
+      fetchMock.mockImplementation(async () => jsonResponse(200, { data: [{ id: 1 }, { id: 2 }] }))
+
+      await Promise.all([
+        executor.execute(userQuery(1), schema.user, {}, HttpMethod.GET, { operationName: 'GetUser' }),
+        executor.execute(userQuery(2), schema.user, {}, HttpMethod.GET, { operationName: 'GetUser' }),
+        executor.execute(userQuery(1), schema.user, {}, HttpMethod.GET, { operationName: 'GetAuthor' })
+      ])
+
+      expect(fetchMock.mock.calls.map(([url]) => url)).toEqual([
+        'https://api.example.com/users?ids=1%2C2',
+        'https://api.example.com/users?ids=1'
+      ])
+      expect(middleware.mock.calls.map(([context]) => context.operationName)).toEqual(['GetUser', 'GetAuthor'])
+    })
+
+    it('should split batches at maxBatchSize', async () => {
+      executor = new RestQLExecutor({
+        baseUrls: { default: 'https://api.example.com' },
+        headers: {},
+        maxBatchSize: 2
+      })
+      fetchMock.mockImplementation(async (url: string) =>
+        jsonResponse(200, {
+          data: new URL(url).searchParams.get('ids')?.split(',').map((id) => ({ id: Number(id) }))
+        })
+      )
+
+      await Promise.all(
+        [1, 2, 3].map((id) => executor.execute(userQuery(id), schema.user, {}, HttpMethod.GET))
+      )
+
+      expect(fetchMock.mock.calls.map(([url]) => url)).toEqual([
+        'https://api.example.com/users?ids=1%2C2',
+        'https://api.example.com/users?ids=3'
+      ])
+    })
+  })
+  describe('pagination', () => {
+    const paginatedSchema = (paginate: string) =>
+      new SDLParser(`
+        type User {
+          id: Int
+
+          @endpoint(GET, "/users", "data")
+          ${paginate}
+        }
+      `).parseSDL().user
+
+    it('should pass the cursor of the previous page and read the next one from the response', async () => {
+      const schema = paginatedSchema('@paginate(strategy: CURSOR, cursorPath: "meta.next", pageSize: 2)')
+      fetchMock
+        .mockResolvedValueOnce(jsonResponse(200, { data: [{ id: 1 }, { id: 2 }], meta: { next: 'abc' } }))
+        .mockResolvedValueOnce(jsonResponse(200, { data: [{ id: 3 }], meta: { next: null } }))
+
+      const firstPage = await executor.executePage(query, schema, {})
+      const lastPage = await executor.executePage(query, schema, {}, firstPage.pageInfo.endCursor as string)
+
+      expect(fetchMock.mock.calls.map(([url]) => url)).toEqual([
+        'https://api.example.com/users?limit=2',
+        'https://api.example.com/users?limit=2&cursor=abc'
+      ])
+      expect(firstPage.items).toEqual([{ id: 1 }, { id: 2 }])
+      expect(firstPage.pageInfo).toEqual({ hasNextPage: true, endCursor: 'abc' })
+      expect(lastPage.pageInfo).toEqual({ hasNextPage: false, endCursor: null })
+    })
+
+    it('should advance the offset until a page is shorter than the page size', async () => {
+      const schema = paginatedSchema('@paginate(strategy: OFFSET, pageSize: 2)')
+      fetchMock
+        .mockResolvedValueOnce(jsonResponse(200, { data: [{ id: 1 }, { id: 2 }] }))
+        .mockResolvedValueOnce(jsonResponse(200, { data: [{ id: 3 }] }))
+
+      const firstPage = await executor.executePage(query, schema, {})
+      const lastPage = await executor.executePage(query, schema, {}, firstPage.pageInfo.endCursor as string)
+
+      expect(fetchMock.mock.calls[1][0]).toBe('https://api.example.com/users?limit=2&offset=2')
+      expect(firstPage.pageInfo).toEqual({ hasNextPage: true, endCursor: '2' })
+      expect(lastPage.pageInfo).toEqual({ hasNextPage: false, endCursor: null })
+    })
+
+    it('should follow the next link of the Link header', async () => {
+      const schema = paginatedSchema('@paginate(strategy: LINK_HEADER)')
+      const nextUrl = 'https://api.example.com/users?page=2'
+      fetchMock
+        .mockResolvedValueOnce(
+          jsonResponse(200, { data: [{ id: 1 }] }, { Link: `<${nextUrl}>; rel="next", <https://api.example.com/users?page=5>; rel="last"` })
+        )
+        .mockResolvedValueOnce(jsonResponse(200, { data: [{ id: 2 }] }))
+
+      const firstPage = await executor.executePage(query, schema, {})
+      const lastPage = await executor.executePage(query, schema, {}, firstPage.pageInfo.endCursor as string)
+
+      expect(firstPage.pageInfo).toEqual({ hasNextPage: true, endCursor: nextUrl })
+      expect(fetchMock.mock.calls[1][0]).toBe(nextUrl)
+      expect(lastPage.pageInfo).toEqual({ hasNextPage: false, endCursor: null })
+    })
+  })
+  describe('cancellation', () => {
+    // Never responds, but rejects with the abort reason like fetch does
+    const hangingFetch = (url: string, init: RequestInit) =>
+      new Promise((_resolve, reject) => {
+        init.signal?.addEventListener('abort', () => reject(init.signal?.reason))
+      })
+
+    it('should time out requests after the per-endpoint timeout without retrying them', async () => {
+      const schema = new SDLParser(`
+        type User {
+          id: Int
+
+          @endpoint(GET, "/users", "data")
+          @timeout(ms: 10)
+        }
+      `).parseSDL()
+      fetchMock.mockImplementation(hangingFetch)
+
+      await expect(executor.execute(query, schema.user, {}, HttpMethod.GET)).rejects.toThrow(
+        new TimeoutError('Request to https://api.example.com/users timed out after 10ms')
+      )
+      expect(fetchMock).toHaveBeenCalledTimes(1)
+    })
+
+    it('should abort requests with an AbortError when their signal is aborted', async () => {
+      fetchMock.mockImplementation(hangingFetch)
+      const controller = new AbortController()
+
+      const promise = executor.execute(query, userSchema, {}, HttpMethod.POST, { signal: controller.signal })
+      controller.abort()
+
+      await expect(promise).rejects.toThrow(AbortError)
+      expect(fetchMock.mock.calls[0][1].signal.aborted).toBe(true)
+    })
+
+    it('should abort a shared request only once every caller is aborted', async () => {
+      fetchMock.mockImplementation(hangingFetch)
+      const controllers = [new AbortController(), new AbortController()]
+
+      const [first, second] = controllers.map((controller) =>
+        executor.execute(query, userSchema, {}, HttpMethod.GET, { signal: controller.signal })
+      )
+      controllers[0].abort()
+      await expect(first).rejects.toThrow(AbortError)
+      expect(fetchMock).toHaveBeenCalledTimes(1)
+      expect(fetchMock.mock.calls[0][1].signal.aborted).toBe(false)
+
+      controllers[1].abort()
+      await expect(second).rejects.toThrow(AbortError)
+      expect(fetchMock.mock.calls[0][1].signal.aborted).toBe(true)
+    })
+
+    it('should keep the timeout and the signal while reading the body of the response', async () => {
+      const schema = new SDLParser(`
+        type User {
+          id: Int
+
+          @endpoint(GET, "/users", "data")
+          @paginate(strategy: PAGE)
+          @timeout(ms: 10)
+        }
+      `).parseSDL()
+      // Sends its headers, but never finishes its body
+      fetchMock.mockImplementation(async () => new Response(new ReadableStream({ start () {} }), { status: 200 }))
+
+      await expect(executor.executePage(query, schema.user, {})).rejects.toThrow(
+        new TimeoutError('Request to https://api.example.com/users?page=1 timed out after 10ms')
+      )
+      const controller = new AbortController()
+      const promise = executor.execute(query, userSchema, {}, HttpMethod.POST, { signal: controller.signal })
+      await vi.waitFor(() => expect(fetchMock).toHaveBeenCalledTimes(2))
+      controller.abort()
+      await expect(promise).rejects.toThrow(AbortError)
+    })
+  })
+  describe('middleware', () => {
+    it('should pass every attempt through the middleware in order', async () => {
+      const calls: string[] = []
+      executor = new RestQLExecutor({
+        baseUrls: { default: 'https://api.example.com' },
+        headers: {},
+        maxRetries: 1,
+        retryDelay: 1,
+        middleware: [
+          async (context, next) => {
+            calls.push(`first ${context.attempt}`)
+            context.headers['X-Correlation-ID'] = 'abc'
+            return next()
+          }
+        ]
+      })
+      executor.use(async (context, next) => {
+        calls.push(`second ${context.attempt}`)
+        const response = await next()
+        calls.push(`second ${response.status}`)
+        return response
+      })
+      fetchMock
+        .mockResolvedValueOnce(jsonResponse(502))
+        .mockResolvedValueOnce(jsonResponse(200, { id: 1 }))
+
+      await expect(executor.execute(query, userSchema, {}, HttpMethod.GET)).resolves.toEqual({ id: 1 })
+      expect(calls).toEqual(['first 1', 'second 1', 'second 502', 'first 2', 'second 2', 'second 200'])
+      expect(fetchMock.mock.calls[1][1].headers['X-Correlation-ID']).toBe('abc')
+    })
+
+    it('should let a middleware send the request again with refreshed credentials', async () => {
+      executor.use(async (context, next) => {
+        const response = await next()
+        if (response.status !== 401) {
+          return response
+        }
+        context.headers.Authorization = 'Bearer refreshed'
+        return next()
+      })
+      fetchMock.mockImplementation(async (url: string, init: RequestInit) =>
+        (init.headers as { [key: string]: string }).Authorization === 'Bearer refreshed'
+          ? jsonResponse(200, { id: 1 })
+          : jsonResponse(401)
+      )
+
+      await expect(executor.execute(query, userSchema, {}, HttpMethod.GET)).resolves.toEqual({ id: 1 })
+      expect(fetchMock).toHaveBeenCalledTimes(2)
+    })
+
+    it('should only share in-flight requests between operations of the same name', async () => {
+      const middleware = vi.fn((context, next) => next())
+      executor.use(middleware)
+      fetchMock.mockImplementation(async () => jsonResponse(200, { id: 1 }))
+
+      await Promise.all(
+        ['GetUser', 'GetUser', 'GetAuthor'].map((operationName) =>
+          executor.execute(query, userSchema, {}, HttpMethod.GET, { operationName })
+        )
+      )
+
+      expect(fetchMock).toHaveBeenCalledTimes(2)
+      expect(middleware.mock.calls.map(([context]) => context.operationName)).toEqual(['GetUser', 'GetAuthor'])
+    })
+
+    it('should expose the request, resource and operation to middleware', async () => {
+      const middleware = vi.fn((context, next) => next())
+      executor.use(middleware)
+      fetchMock.mockResolvedValue(jsonResponse(200, {}))
+
+      await executor.execute(
+        { queryName: 'user', args: { name: 'Jane' }, fields: {} },
+        userSchema,
+        {},
+        HttpMethod.POST,
+        { operationName: 'CreateUser' }
+      )
+
+      expect(middleware.mock.calls[0][0]).toMatchObject({
+        method: HttpMethod.POST,
+        url: 'https://api.example.com/users',
+        body: JSON.stringify({ name: 'Jane' }),
+        resourceName: 'user',
+        operationName: 'CreateUser',
+        attempt: 1
+      })
+    })
+  })
+  describe('declared arguments', () => {
+    const schema = new SDLParser(`
+      type User {
+        id: Int
+
+        @endpoint(GET, "/orgs/{orgId}/users", "data")
+        @arg(orgId: Int!)
+        @arg(limit: Int = 20)
+        @arg(token: String, in: HEADER)
+
+        @endpoint(PUT, "/users", "data")
+        @arg(id: Int!, in: QUERY)
+        @arg(name: String)
+      }
+    `).parseSDL()
+
+    it('should send each argument in its declared location and apply defaults', async () => {
+      fetchMock.mockResolvedValue(jsonResponse(200, {}))
+
+      await executor.execute(
+        { queryName: 'user', args: { orgId: 7, token: { $variable: 'token' } }, fields: {} },
+        schema.user,
+        { token: 'secret' },
+        HttpMethod.GET
+      )
+
+      const [url, options] = fetchMock.mock.calls[0]
+      expect(url).toBe('https://api.example.com/orgs/7/users?limit=20')
+      expect(options.headers.token).toBe('secret')
+      expect(options.body).toBeUndefined()
+    })
+
+    it('should split query string and body arguments of mutations', async () => {
+      fetchMock.mockResolvedValue(jsonResponse(200, {}))
+
+      await executor.execute(
+        { queryName: 'user', args: { id: 1, name: 'Jane' }, fields: {} },
+        schema.user,
+        {},
+        HttpMethod.PUT
+      )
+
+      const [url, options] = fetchMock.mock.calls[0]
+      expect(url).toBe('https://api.example.com/users?id=1')
+      expect(JSON.parse(options.body)).toEqual({ name: 'Jane' })
+    })
+
+    it('should keep undeclared path arguments in the body of mutations', async () => {
+      const undeclaredSchema = new SDLParser(`
+        type User {
+          id: Int
+
+          @endpoint(PUT, "/users/{id}", "data")
+        }
+      `).parseSDL()
+      fetchMock.mockResolvedValue(jsonResponse(200, {}))
+
+      await executor.execute(
+        { queryName: 'user', args: { id: 1, name: 'Jane' }, fields: {} },
+        undeclaredSchema.user,
+        {},
+        HttpMethod.PUT
+      )
+
+      const [url, options] = fetchMock.mock.calls[0]
+      expect(url).toBe('https://api.example.com/users/1')
+      expect(JSON.parse(options.body)).toEqual({ id: 1, name: 'Jane' })
+    })
+
+    it('should reject missing required arguments before sending the request', async () => {
+      await expect(
+        executor.execute({ queryName: 'user', args: {}, fields: {} }, schema.user, {}, HttpMethod.GET)
+      ).rejects.toThrow(ValidationError)
+      expect(fetchMock).not.toHaveBeenCalled()
+    })
+  })
+})
@@ -0,0 +1,218 @@
+import { expect, describe, beforeEach, it } from 'vitest'
+import { RestQLParser } from '../../../src/core/parser/Parser'
+import { SDLParser } from '../../../src/core/parser/SDLParser'
+
+describe('RestQLParser', () => {
+  let parser: RestQLParser
+
+  beforeEach(() => {
+    parser = new RestQLParser()
+  })
+
+  it('should parse a query with arguments and nested fields', () => {
+    const operation = parser.parse(`
+      query GetUser($id: String!) {
+        user(id: $id) {
+          name
+          address {
+            city
+          }
+        }
+      }
+    `)
+
+    expect(operation.operationType).toBe('query')
+    expect(operation.operationName).toBe('GetUser')
+    expect(operation.queries).toMatchObject([
+      {
+        queryName: 'user',
+        args: { id: { $variable: 'id' } },
+        fields: {
+          name: { name: 'name', args: {}, value: true },
+          address: {
+            name: 'address',
+            args: {},
+            fields: { city: { name: 'city', args: {}, value: true } }
+          }
+        }
+      }
+    ])
+  })
+
+  it('should key aliased queries and fields by their alias', () => {
+    const operation = parser.parse(`
+      query GetUsers {
+        admin: user(id: $adminId) {
+          fullName: name
+        }
+        guest: user(id: $guestId) {
+          name
+        }
+      }
+    `)
+
+    expect(operation.queries).toHaveLength(2)
+    expect(operation.queries[0]).toMatchObject({
+      queryName: 'user',
+      alias: 'admin',
+      args: { id: { $variable: 'adminId' } },
+      fields: { fullName: { name: 'name', alias: 'fullName', value: true } }
+    })
+    expect(operation.queries[1]).toMatchObject({
+      queryName: 'user',
+      alias: 'guest',
+      args: { id: { $variable: 'guestId' } }
+    })
+  })
+
+  it('should parse list types and default values of variables', () => {
+    const operation = parser.parse(`
+      query GetUsers($ids: [Int!]!, $limit: Int! = 20, $status: String = "active") {
+        users(ids: $ids, limit: $limit, status: $status) { name }
+      }
+    `)
+
+    expect(operation.variables).toEqual({
+      ids: { type: '[Int!]!', isRequired: true },
+      limit: { type: 'Int!', isRequired: false, defaultValue: 20 },
+      status: { type: 'String', isRequired: false, defaultValue: 'active' }
+    })
+  })
+
+  it('should reject variables in default values', () => {
+    expect(() =>
+      parser.parse('query GetUsers($a: Int, $b: Int = $a) { users { name } }')
+    ).toThrow('must not reference variables')
+  })
+
+  it('should parse typed literal arguments', () => {
+    const operation = parser.parse(`
+      query GetUsers {
+        users(
+          limit: 10,
+          ratio: -1.5e2,
+          active: true,
+          deleted: null,
+          status: ACTIVE,
+          name: "Jane \\"J\\" Doe",
+          ids: [1, 2, $thirdId],
+          filter: { role: "admin", tags: ["a", "b"], ownerId: $ownerId }
+        ) {
+          name
+        }
+      }
+    `)
+
+    expect(operation.queries[0].args).toEqual({
+      limit: 10,
+      ratio: -150,
+      active: true,
+      deleted: null,
+      status: 'ACTIVE',
+      name: 'Jane "J" Doe',
+      ids: [1, 2, { $variable: 'thirdId' }],
+      filter: { role: 'admin', tags: ['a', 'b'], ownerId: { $variable: 'ownerId' } }
+    })
+  })
+
+  it('should reject malformed numbers', () => {
+    expect(() => parser.parse('query GetUsers { users(limit: 10abc) { name } }')).toThrow(
+      'Invalid number at position 30'
+    )
+  })
+
+  it('should reject duplicate response keys', () => {
+    expect(() =>
+      parser.parse(`
+        query GetUsers {
+          user(id: $adminId) { name }
+          user(id: $guestId) { name }
+        }
+      `)
+    ).toThrow('Duplicate field "user"')
+  })
+
+  describe('fragments', () => {
+    const schema = new SDLParser(`
+      type User {
+        id: String
+        name: String
+        address: Address
+
+        @endpoint(GET, "/users", "data")
+      }
+
+      type Address {
+        street: String
+        city: String
+      }
+    `).parseSDL()
+
+    beforeEach(() => {
+      parser = new RestQLParser(schema)
+    })
+
+    it('should expand named and inline fragment spreads', () => {
+      const operation = parser.parse(`
+        query GetUser {
+          user {
+            id
+            ...UserCard
+            address {
+              ... on Address { street }
+            }
+          }
+        }
+
+        fragment UserCard on User {
+          name
+          address { ...AddressFields }
+        }
+
+        fragment AddressFields on Address {
+          city
+        }
+      `)
+
+      expect(Object.keys(operation.fragments)).toEqual(['UserCard', 'AddressFields'])
+      expect(operation.queries[0].spreads).toBeUndefined()
+      expect(operation.queries[0].fields).toMatchObject({
+        id: { name: 'id', args: {}, value: true },
+        name: { name: 'name', args: {}, value: true },
+        address: {
+          name: 'address',
+          args: {},
+          fields: {
+            street: { name: 'street', args: {}, value: true },
+            city: { name: 'city', args: {}, value: true }
+          }
+        }
+      })
+    })
+
+    it('should reject unknown fragments', () => {
+      expect(() =>
+        parser.parse('query GetUser { user { ...Missing } }')
+      ).toThrow('Unknown fragment "Missing"')
+    })
+
+    it('should reject fragment spreads on the wrong type', () => {
+      expect(() =>
+        parser.parse(`
+          query GetUser { user { ...AddressFields } }
+          fragment AddressFields on Address { city }
+        `)
+      ).toThrow('cannot be spread within "user"')
+    })
+
+    it('should detect fragment cycles', () => {
+      expect(() =>
+        parser.parse(`
+          query GetUser { user { ...A } }
+          fragment A on User { id ...B }
+          fragment B on User { name ...A }
+        `)
+      ).toThrow('Fragment cycle detected: A -> B -> A')
+    })
+  })
+})
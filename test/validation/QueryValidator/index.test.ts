@@ -0,0 +1,174 @@
+import { expect, describe, beforeEach, it } from 'vitest'
+import { QueryValidator } from '../../../src/core/validation/QueryValidator'
+import { RestQLParser } from '../../../src/core/parser/Parser'
+import { SDLParser } from '../../../src/core/parser/SDLParser'
+import { ValidationError } from '../../../src/core/validation/errors'
+
+describe('QueryValidator', () => {
+  const schema = new SDLParser(`
+    type User {
+      id: String
+      name: String
+      address: Address
+      posts: [Post]
+
+      @endpoint(GET, "/users", "data")
+      @endpoint(POST, "/users", "data")
+    }
+
+    type Post {
+      title: String
+
+      @endpoint(GET, "/posts", "data")
+      @arg(limit: Int = 10)
+    }
+
+    type Address {
+      city: String
+    }
+  `).parseSDL()
+  let parser: RestQLParser
+  let validator: QueryValidator
+
+  const getDetails = (operationString: string) => {
+    try {
+      validator.validate(parser.parse(operationString))
+    } catch (error) {
+      expect(error).toBeInstanceOf(ValidationError)
+      return (error as ValidationError).details
+    }
+    return []
+  }
+
+  beforeEach(() => {
+    parser = new RestQLParser(schema)
+    validator = new QueryValidator(schema)
+  })
+
+  it('should accept a valid operation', () => {
+    expect(
+      getDetails(`
+        query GetUser {
+          user(id: 1) {
+            name
+            address { city }
+            posts(limit: 5) { title }
+          }
+        }
+      `)
+    ).toEqual([])
+  })
+
+  it('should report every problem with its position', () => {
+    const query = `query GetUser {
+      user {
+        nickname
+        name { first }
+        address
+        id(format: SHORT)
+      }
+      comment { id }
+    }`
+
+    expect(getDetails(query)).toEqual([
+      { message: 'Unknown field "nickname" on type "user"', pos: query.indexOf('nickname') },
+      { message: 'Field "name" of scalar type String must not have a selection set', pos: query.indexOf('name {') },
+      { message: 'Field "address" of type Address must have a selection set', pos: query.indexOf('address') },
+      { message: 'Field "id" does not accept arguments', pos: query.indexOf('id(') },
+      { message: 'Unknown resource "comment"', pos: query.indexOf('comment') }
+    ])
+  })
+
+  it('should validate mutations against the inferred resource', () => {
+    expect(
+      getDetails(`
+        mutation Mutate {
+          createUser(name: "Jane") { id }
+          deletePost(id: 1) { title }
+          archiveUser(id: 1) { id }
+        }
+      `).map(({ message }) => message)
+    ).toEqual([
+      'Resource "Post" has no DELETE endpoint',
+      'Unknown mutation "archiveUser"'
+    ])
+  })
+  it('should check arguments against those declared on the endpoint', () => {
+    const query = `query GetUser {
+      user(id: 1) {
+        posts(limit: 5, offset: 10) { title }
+      }
+    }`
+
+    expect(getDetails(query)).toEqual([
+      { message: 'Unknown argument "offset" on field "posts"', pos: query.indexOf('posts') }
+    ])
+  })
+
+  it('should report missing required arguments', () => {
+    const schemaWithArgs = new SDLParser(`
+      type Post {
+        title: String
+
+        @endpoint(GET, "/posts/{id}", "data")
+        @arg(id: Int!)
+      }
+    `).parseSDL()
+    validator = new QueryValidator(schemaWithArgs)
+    parser = new RestQLParser(schemaWithArgs)
+
+    expect(getDetails('query GetPost { post { title } }')).toEqual([
+      { message: 'Missing required argument "id" of type Int! on field "post"', pos: 16 }
+    ])
+    expect(getDetails('query GetPost($id: Int!) { post(id: $id) { title } }')).toEqual([])
+  })
+
+  it('should not require the arguments supplied by the parent of a nested resource', () => {
+    const schemaWithArgs = new SDLParser(`
+      type User {
+        name: String
+
+        @endpoint(GET, "/users/{id}", "data")
+        @arg(id: String!, in: PATH)
+      }
+
+      type Comment {
+        body: String
+
+        @endpoint(GET, "/posts/{postId}/comments", "data")
+        @arg(postId: String!, in: PATH)
+        @arg(status: String!)
+      }
+
+      type Post {
+        author: User @from("author_id")
+        owner: User @resolve(args: { id: "$parent.owner_id" })
+        comments: [Comment] @resolve(args: { postId: "$parent.id" })
+
+        @endpoint(GET, "/posts", "data")
+      }
+    `).parseSDL()
+    validator = new QueryValidator(schemaWithArgs)
+    parser = new RestQLParser(schemaWithArgs)
+
+    const query = 'query GetPosts { post { author { name } owner { name } comments { body } } }'
+    expect(getDetails(query)).toEqual([
+      { message: 'Missing required argument "status" of type String! on field "comments"', pos: query.indexOf('comments') }
+    ])
+  })
+  it('should validate field directives', () => {
+    expect(
+      getDetails(`
+        mutation CreateUser {
+          createUser(name: "Jane") { id @export(as: "userId") name @export(name: "x") @skip }
+        }
+      `).map(({ message }) => message)
+    ).toEqual([
+      'Directive "@export" on field "name" requires a single string argument "as"',
+      'Unknown directive "@skip" on field "name"'
+    ])
+    expect(
+      getDetails('query GetUser { user { id @export(as: "userId") } }').map(({ message }) => message)
+    ).toEqual(['Directive "@export" is only allowed in mutations'])
+  })
+})
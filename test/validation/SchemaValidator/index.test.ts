@@ -0,0 +1,216 @@
+import { expect, describe, beforeEach, it } from 'vitest'
+import { SchemaValidator } from '../../../src/core/validation/SchemaValidator'
+import { SDLParser } from '../../../src/core/parser/SDLParser'
+import { SchemaError } from '../../../src/core/validation/errors'
+
+describe('SchemaValidator', () => {
+  let validator: SchemaValidator
+
+  const validate = (sdl: string) => validator.validateSchema(new SDLParser(sdl).parseSDL())
+
+  beforeEach(() => {
+    validator = new SchemaValidator({})
+  })
+
+  it('should accept well-formed data paths', () => {
+    expect(() =>
+      validate(`
+        type User {
+          id: String
+
+          @endpoint(GET, "/users", "data.items[0]")
+          @endpoint(POST, "/users", "[0].user")
+          @endpoint(DELETE, "/users", "")
+        }
+      `)
+    ).not.toThrow()
+  })
+
+  it.each(['data..items', '.data', 'data.', 'data[first]', 'data[0'])(
+    'should reject the malformed data path "%s"',
+    (dataPath) => {
+      expect(() =>
+        validate(`
+          type User {
+            id: String
+
+            @endpoint(GET, "/users", "${dataPath}")
+          }
+        `)
+      ).toThrow(SchemaError)
+    }
+  )
+
+  it('should accept every scalar type for fields and mutation results', () => {
+    expect(() =>
+      validate(`
+        type User {
+          id: ID
+          score: Float
+          name: String
+          age: Int
+          active: Boolean
+
+          @endpoint(GET, "/users", "data")
+        }
+
+        type Mutation {
+          rateUser(id: ID!): Float @endpoint(POST, "/users/{id}/rating", "rating")
+        }
+      `)
+    ).not.toThrow()
+  })
+
+  it('should validate declared endpoint arguments', () => {
+    expect(() =>
+      validate(`
+        type User {
+          id: String
+
+          @endpoint(GET, "/users", "data")
+          @arg(id: Int!, in: PATH)
+        }
+      `)
+    ).toThrow('Path argument id does not appear in path /users on GET endpoint of resource user')
+    expect(() =>
+      validate(`
+        type User {
+          id: String
+
+          @endpoint(GET, "/users", "data")
+          @arg(filter: UserFilter)
+        }
+      `)
+    ).toThrow('Invalid type UserFilter for argument filter')
+  })
+
+  it('should validate cache policies', () => {
+    expect(() =>
+      validate(`
+        type User {
+          id: String
+
+          @cache(ttl: 60000, swr: 300000)
+          @endpoint(GET, "/users", "data")
+        }
+      `)
+    ).not.toThrow()
+    expect(() =>
+      validate(`
+        type User {
+          id: String
+
+          @cache(ttl: -1)
+          @endpoint(GET, "/users", "data")
+        }
+      `)
+    ).toThrow('ttl must be a non-negative number for resource user')
+    expect(() =>
+      validate(`
+        type Address {
+          city: String
+
+          @cache(ttl: 1000)
+        }
+      `)
+    ).toThrow('@cache requires an @endpoint for resource Address')
+  })
+
+  it('should validate batch policies', () => {
+    expect(() =>
+      validate(`
+        type User {
+          id: String
+
+          @endpoint(GET, "/users", "data[0]")
+          @batch(param: "ids", key: "id", path: "data", separator: ",", maxBatchSize: 50)
+        }
+      `)
+    ).not.toThrow()
+    expect(() =>
+      validate(`
+        type User {
+          id: String
+
+          @endpoint(POST, "/users", "data")
+          @batch(param: "ids", key: "id")
+        }
+      `)
+    ).toThrow('@batch is only supported on GET endpoints for POST endpoint of resource user')
+    expect(() =>
+      validate(`
+        type User {
+          id: String
+
+          @endpoint(GET, "/users", "data")
+          @batch(key: "id")
+        }
+      `)
+    ).toThrow('param must be a non-empty string for GET endpoint of resource user')
+  })
+
+  it('should validate resolve policies', () => {
+    const sdl = (resolveDirective: string) => `
+      type User {
+        id: String
+        posts: [Post] ${resolveDirective}
+        address: Address ${resolveDirective}
+      }
+
+      type Post {
+        id: String
+
+        @endpoint(GET, "/users/{userId}/posts", "data")
+      }
+
+      type Address {
+        city: String
+      }
+    `
+    expect(() =>
+      validate(sdl('@resolve(args: { userId: "$parent.user_id" })').replace(/address: Address @resolve\(.*\)/, ''))
+    ).not.toThrow()
+    expect(() => validate(sdl('@resolve(args: { userId: "$parent.user_id" })'))).toThrow(
+      '@resolve requires a resource type with a GET endpoint, got Address for field address of resource User'
+    )
+    expect(() =>
+      validate(sdl('@resolve(args: { userId: "$parent..id" })').replace(/address: Address @resolve\(.*\)/, ''))
+    ).toThrow('Invalid parent reference "$parent..id" for field posts of resource User')
+  })
+
+  it('should validate pagination policies', () => {
+    const sdl = (paginate: string) => `
+      type User {
+        id: String
+
+        @endpoint(GET, "/users", "data")
+        ${paginate}
+      }
+    `
+    expect(() => validate(sdl('@paginate(strategy: CURSOR, cursorPath: "meta.next", maxPages: 5)'))).not.toThrow()
+    expect(() => validate(sdl('@paginate(strategy: KEYSET)'))).toThrow(
+      'strategy must be one of CURSOR, OFFSET, PAGE, LINK_HEADER for GET endpoint of resource user'
+    )
+    expect(() => validate(sdl('@paginate(strategy: PAGE, pageSize: 0)'))).toThrow(
+      'pageSize and maxPages must be positive integers for GET endpoint of resource user'
+    )
+  })
+
+  it('should validate timeout policies', () => {
+    const sdl = (timeout: string) => `
+      type User {
+        id: String
+
+        @endpoint(GET, "/users", "data")
+        ${timeout}
+      }
+    `
+    expect(() => validate(sdl('@timeout(ms: 5000)'))).not.toThrow()
+    expect(() => validate(sdl('@timeout(ms: 0)'))).toThrow(
+      'ms must be a positive number for GET endpoint of resource user'
+    )
+    expect(() => validate(sdl('@timeout(seconds: 5)'))).toThrow(
+      'Unknown timeout options seconds for GET endpoint of resource user'
+    )
+  })
+})
@@ -0,0 +1,74 @@
+import { expect, describe, beforeEach, it } from 'vitest'
+import { VariableValidator } from '../../../src/core/validation/VariableValidator'
+import { SDLParser } from '../../../src/core/parser/SDLParser'
+import { ValidationError } from '../../../src/core/validation/errors'
+
+describe('VariableValidator', () => {
+  let validator: VariableValidator
+
+  beforeEach(() => {
+    const schema = new SDLParser(`
+      input UserInput {
+        name: String!
+        age: Int
+      }
+    `).parseSDL()
+    validator = new VariableValidator(schema)
+  })
+
+  it('should coerce variables to their declared types', () => {
+    const variables = validator.validate(
+      {
+        id: { type: 'Int!', isRequired: true },
+        ids: { type: '[ID!]!', isRequired: true },
+        active: { type: 'Boolean', isRequired: false },
+        user: { type: 'UserInput', isRequired: false }
+      },
+      { id: '42', ids: [1, '2'], active: 'true', user: { name: 'Jane', age: 30 }, extra: 'kept' }
+    )
+
+    expect(variables).toEqual({
+      id: 42,
+      ids: ['1', '2'],
+      active: true,
+      user: { name: 'Jane', age: 30 },
+      extra: 'kept'
+    })
+  })
+
+  it('should apply default values to omitted variables', () => {
+    const variables = validator.validate(
+      { limit: { type: 'Int', isRequired: false, defaultValue: 20 } },
+      {}
+    )
+
+    expect(variables).toEqual({ limit: 20 })
+  })
+
+  it('should report every invalid variable at once', () => {
+    let error: ValidationError | undefined
+    try {
+      validator.validate(
+        {
+          id: { type: 'Int!', isRequired: true },
+          limit: { type: 'Int', isRequired: false },
+          tags: { type: '[String!]', isRequired: false },
+          user: { type: 'UserInput', isRequired: false }
+        },
+        { limit: 1.5, tags: ['a', null], user: { age: 'old', nickname: 'J' } }
+      )
+    } catch (e) {
+      error = e as ValidationError
+    }
+
+    expect(error).toBeInstanceOf(ValidationError)
+    expect(error?.details.map(({ message }) => message)).toEqual([
+      'Required variable $id of type Int! is not provided',
+      '$limit expected a value of type Int but received 1.5',
+      '$tags[1] of type String! must not be null',
+      '$user.nickname is not a field of UserInput',
+      '$user.name of type String! must not be null',
+      '$user.age expected a value of type Int but received "old"'
+    ])
+  })
+})